@@ -3,28 +3,72 @@ import {
   AbsoluteFill,
   useCurrentFrame,
   useVideoConfig,
-  interpolate,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { seedSchema } from './seededNoise';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { buildEcgSchedule, rhythmStepSchema, sampleEcg } from './ecgWaveform';
 
+const DURATION_IN_SECONDS = 15;
+const FPS = 30;
+
+export const neonEKGSchema = z.object({
+  gridSize: z.number().positive(),
+  // Colors default to the active theme; set one to override it here only
+  primaryColor: zColor().optional(), // Trace
+  gridColor: zColor().optional(),
+  // Waveform (amplitudes in pixels)
+  bpm: z.number().positive(),
+  pAmplitude: z.number(),
+  qrsAmplitude: z.number(),
+  tAmplitude: z.number(),
+  // Scripted rhythm changes, e.g. sinus -> arrhythmia -> flatline
+  rhythmTimeline: z.array(rhythmStepSchema).min(1),
+  // 'scroll': the trace moves left with "now" at the right edge.
+  // 'sweep': a pen moves left to right, erasing the previous pass ahead of it.
+  mode: z.enum(['scroll', 'sweep']),
+  traceSpeed: z.number().positive(), // Pixels per second (4K design pixels, like all sizes)
+  seed: seedSchema,
+}).refine((props) => props.rhythmTimeline.every((step) => step.atSeconds < DURATION_IN_SECONDS), {
+  message: `Every rhythmTimeline step must start before the end of the clip (${DURATION_IN_SECONDS}s)`,
+  path: ['rhythmTimeline'],
+});
 
 export const compositionConfig = {
   id: 'NeonEKG',
-  durationInSeconds: 15,
-  fps: 30,
+  durationInSeconds: DURATION_IN_SECONDS,
+  fps: FPS,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: neonEKGSchema,
   defaultProps: {
     gridSize: 100,
-    lineColor: '#00FF00', // Classic EKG Green
-    gridColor: '#003300', // Dark Green Grid
-    beatFrequency: 30,    // Frames per beat (1 sec at 30fps)
-    flatlineStart: 210,   // Frame where heart stops (7 seconds)
+    theme: 'matrix',      // Classic EKG green on a dark green grid
+    bpm: 60,
+    pAmplitude: 30,
+    qrsAmplitude: 400,    // R spike height
+    tAmplitude: 60,
+    rhythmTimeline: [
+      { atSeconds: 0, rhythm: 'sinus' },
+      { atSeconds: 4, rhythm: 'arrhythmia' },
+      { atSeconds: 7, rhythm: 'flatline' }, // Heart stops
+    ],
+    mode: 'scroll',
+    traceSpeed: 600,
+    seed: 0,              // Shapes beat irregularity and sensor noise
   },
 };
 
-type EKGProps = typeof compositionConfig.defaultProps;
+type EKGProps = z.infer<typeof neonEKGSchema>;
 
-const Grid: React.FC<{ size: number; color: string }> = ({ size, color }) => {
+const Grid: React.FC<{ size: number; lineWidth: number; color: string }> = ({
+  size,
+  lineWidth,
+  color,
+}) => {
   return (
     <div
       style={{
@@ -32,8 +76,8 @@ const Grid: React.FC<{ size: number; color: string }> = ({ size, color }) => {
         width: '100%',
         height: '100%',
         backgroundImage: `
-          linear-gradient(${color} 2px, transparent 2px),
-          linear-gradient(90deg, ${color} 2px, transparent 2px)
+          linear-gradient(${color} ${lineWidth}px, transparent ${lineWidth}px),
+          linear-gradient(90deg, ${color} ${lineWidth}px, transparent ${lineWidth}px)
         `,
         backgroundSize: `${size}px ${size}px`,
         opacity: 0.5,
@@ -45,118 +89,90 @@ const Grid: React.FC<{ size: number; color: string }> = ({ size, color }) => {
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
+// Sizes and speeds in 4K design pixels (see layout.ts)
+const SAMPLE_STEP = 10; // Pixels between polyline points
+const SWEEP_GAP = 150;  // Width of the erased band ahead of the sweep pen
+
 export const NeonEKG: React.FC<EKGProps> = ({
   gridSize,
-  lineColor,
-  gridColor,
-  beatFrequency,
-  flatlineStart,
+  primaryColor: lineColorProp,
+  gridColor: gridColorProp,
+  bpm,
+  pAmplitude,
+  qrsAmplitude,
+  tAmplitude,
+  rhythmTimeline,
+  mode,
+  traceSpeed,
+  seed,
 }) => {
   const frame = useCurrentFrame();
-  const { width, height } = useVideoConfig();
+  const { width, height, fps, durationInFrames } = useVideoConfig();
+  const now = frame / fps;
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const speed = traceSpeed * scale;
+  const step = SAMPLE_STEP * scale;
+  const glow = glowStrength * scale;
+  const lineColor = lineColorProp ?? palette.primary;
+  const gridColor = gridColorProp ?? mixColor(palette.primary, 0.2, palette.background);
 
-  // 1. GENERATE THE PATH DATA
-  // We calculate the Y position for every X pixel up to the current frame
-  const points = useMemo(() => {
-    const pts = [];
-    // We only draw the "tail" (last 1500px) to simulate fading
-    const tailLength = 2000; 
-    
-    // The "Head" X position moves constantly to the right, wrapping around
-    const speed = 15; // Pixels per frame
-    const currentHeadX = frame * speed;
-    
-    // We iterate backwards from the head to draw the trail
-    for (let i = 0; i < tailLength; i+=5) { // Step by 5 for performance
-      const x = currentHeadX - i;
-      if (x < 0) break; // Don't draw before start
+  // 1. BEAT SCHEDULE (whole clip, computed once per prop set)
+  const schedule = useMemo(
+    () => buildEcgSchedule(rhythmTimeline, durationInFrames / fps, {
+      bpm, pAmplitude, qrsAmplitude, tAmplitude, seed,
+    }),
+    [rhythmTimeline, durationInFrames, fps, bpm, pAmplitude, qrsAmplitude, tAmplitude, seed],
+  );
 
-      // Determine time (t) for this specific point in the past
-      const tFrame = x / speed;
-      
-      // LOGIC: Is this point in the "Alive" phase or "Dead" phase?
-      let amplitude = 0;
-      
-      if (tFrame < flatlineStart) {
-        // ALIVE: Calculate Beat
-        const beatProgress = (tFrame % beatFrequency) / beatFrequency; // 0 to 1
-        
-        // The "PQRST" Wave Math
-        // 0.1-0.2: P Wave (Small bump)
-        // 0.4-0.5: QRS Complex (Down, HUGE UP, Down)
-        // 0.6-0.7: T Wave (Medium bump)
-        
-        if (beatProgress > 0.1 && beatProgress < 0.2) amplitude = -30 * Math.sin((beatProgress - 0.1) * Math.PI * 10);
-        else if (beatProgress > 0.4 && beatProgress < 0.45) amplitude = 50; // Q dip
-        else if (beatProgress >= 0.45 && beatProgress < 0.5) amplitude = -350; // R Spike (Up is negative Y)
-        else if (beatProgress >= 0.5 && beatProgress < 0.55) amplitude = 80;  // S dip
-        else if (beatProgress > 0.7 && beatProgress < 0.85) amplitude = -50 * Math.sin((beatProgress - 0.7) * Math.PI * 6);
-      } else {
-        // DEAD: Flatline
-        // Add tiny random noise so it looks like a real sensor
-        amplitude = (Math.random() - 0.5) * 5; 
-      }
+  // 2. TRACE POINTS
+  // Each screen x maps to a moment in the past; nothing is drawn before t = 0.
+  const toY = (t: number) => height / 2 - sampleEcg(schedule, t) * scale;
+  const toPoint = (x: number, t: number) => `${x},${toY(t)}`;
 
-      // Wrap X to screen width (Oscilloscope effect)
-      // We use modulo to make it loop across the screen
-      const screenX = x % width;
-      
-      // If we wrapped, we need to break the line so it doesn't draw a line across the screen
-      // For this simple version, we just let it scroll endlessly.
-      // To keep it simple: We simulate a "Running Tape" view where X just keeps going.
-      // Actually, let's do the "Scrolling View" (New data on right, pushes old left)
-      
-      pts.push({ x, y: amplitude });
+  const traces = useMemo(() => {
+    if (mode === 'scroll') {
+      // Right edge is "now", the left edge is width / speed seconds ago.
+      // Samples sit on a grid fixed in waveform time (one every step / speed
+      // seconds) and scroll with it, so a peak is sampled at the same moments
+      // on every frame instead of its height shimmering.
+      const interval = step / speed;
+      const xAt = (t: number) => width - (now - t) * speed;
+      const p: string[] = [];
+      // One sample before the left edge so the line reaches it
+      const first = Math.max(0, Math.floor((now - width / speed) / interval));
+      for (let k = first; k * interval < now; k++) {
+        p.push(toPoint(xAt(k * interval), k * interval));
+      }
+      p.push(toPoint(width, now));
+      return { lines: [p.join(' ')], head: null };
     }
-    return pts;
-  }, [frame, beatFrequency, flatlineStart, width]);
-
-  // RE-CALCULATION FOR SCROLLING VIEW
-  // Instead of a moving dot, let's keep the dot fixed at X=3000 and scroll the world left.
-  // This looks more like a modern monitor.
-  
-  const polylinePoints = useMemo(() => {
-      const p = [];
-      const speed = 20;
-      // We calculate "What is the Y value at X?"
-      // We want to fill the screen width (3840)
-      for (let x = 0; x <= width; x += 10) {
-          // The "Time" at this X pixel depends on current frame
-          // If we want new data on the Right, Time increases with X?
-          // No, Time is (Frame * Speed) - (Width - x)
-          // Effectively: Right side is "Now", Left side is "Past"
-          
-          const timeOffset = width - x; // How far back in pixels this point is
-          const visualTime = (frame * speed) - timeOffset;
-          const tFrame = visualTime / speed;
 
-          if (tFrame < 0) continue; // Don't draw negative time
-
-          let y = 0;
-           if (tFrame < flatlineStart) {
-            // BEAT LOGIC
-            const beatProgress = (tFrame % beatFrequency) / beatFrequency;
-            if (beatProgress > 0.1 && beatProgress < 0.2) y = -30 * Math.sin((beatProgress - 0.1) * Math.PI * 10); // P
-            else if (beatProgress > 0.4 && beatProgress < 0.43) y = 50; // Q
-            else if (beatProgress >= 0.43 && beatProgress < 0.47) y = -400; // R (SPIKE)
-            else if (beatProgress >= 0.47 && beatProgress < 0.5) y = 80;  // S
-            else if (beatProgress > 0.6 && beatProgress < 0.75) y = -60 * Math.sin((beatProgress - 0.6) * Math.PI * 6); // T
-           } else {
-             // FLATLINE
-             y = (Math.sin(tFrame) * 2); // Tiny noise
-           }
-           
-           p.push(`${x},${(height / 2) + y}`);
+    // SWEEP: the pen wraps around the screen. Left of the pen is the current
+    // pass; right of the erase gap is what the previous pass left behind.
+    const headX = (now * speed) % width;
+    const current: string[] = [];
+    const previous: string[] = [];
+    for (let x = 0; x <= width; x += step) {
+      if (x <= headX) {
+        current.push(toPoint(x, now - (headX - x) / speed));
+      } else if (x > headX + SWEEP_GAP * scale) {
+        const t = now - (headX + width - x) / speed;
+        if (t >= 0) previous.push(toPoint(x, t));
       }
-      return p.join(' ');
-  }, [frame, width, height, beatFrequency, flatlineStart]);
-
+    }
+    return {
+      lines: [current.join(' '), previous.join(' ')],
+      head: { x: headX, y: toY(now) },
+    };
+  }, [mode, schedule, now, width, height, speed, step, scale]);
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#000500' }}> {/* Very Dark Green Black */}
+    <AbsoluteFill style={{ backgroundColor: background.color }}>
       
       {/* 1. GRID BACKGROUND */}
-      <Grid size={gridSize} color={gridColor} />
+      <Grid size={gridSize * scale} lineWidth={2 * scale} color={gridColor} />
       
       {/* 2. THE EKG LINE */}
       <svg
@@ -164,26 +180,42 @@ export const NeonEKG: React.FC<EKGProps> = ({
         height={height}
         style={{ overflow: 'visible' }}
       >
-        <polyline
-            points={polylinePoints}
-            fill="none"
-            stroke={lineColor}
-            strokeWidth="8"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            style={{
-                filter: `drop-shadow(0 0 15px ${lineColor}) drop-shadow(0 0 30px ${lineColor})`
-            }}
-        />
+        {traces.lines.map((points, i) => (
+          <polyline
+              key={i}
+              points={points}
+              fill="none"
+              stroke={lineColor}
+              strokeWidth={8 * scale}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              style={{
+                  filter: `drop-shadow(0 0 ${15 * glow}px ${lineColor}) drop-shadow(0 0 ${30 * glow}px ${lineColor})`
+              }}
+          />
+        ))}
+
+        {/* Sweep pen: a bright dot at the writing position */}
+        {traces.head && (
+          <circle
+              cx={traces.head.x}
+              cy={traces.head.y}
+              r={12 * scale}
+              fill="#ffffff"
+              style={{ filter: `drop-shadow(0 0 ${20 * glow}px ${lineColor}) drop-shadow(0 0 ${40 * glow}px ${lineColor})` }}
+          />
+        )}
       </svg>
 
-      {/* 3. VIGNETTE OVERLAY (Monitor Look) */}
-       <AbsoluteFill
-        style={{
-          background: 'radial-gradient(circle, transparent 60%, black 100%)',
-          pointerEvents: 'none',
-        }}
-      />
+      {/* 3. VIGNETTE OVERLAY (Monitor Look, solid backgrounds only) */}
+      {background.isSolid && (
+        <AbsoluteFill
+          style={{
+            background: 'radial-gradient(circle, transparent 60%, black 100%)',
+            pointerEvents: 'none',
+          }}
+        />
+      )}
     </AbsoluteFill>
   );
 };
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Composition } from 'remotion';
+import { compositions } from './compositionRegistry';
+
+// =============================================================================
+// ROOT
+// =============================================================================
+// Registers every library composition with Remotion. New components only need
+// an entry in compositionRegistry.ts to show up here.
+export const RemotionRoot: React.FC = () => {
+  return (
+    <>
+      {compositions.map((composition) => (
+        <Composition
+          key={composition.id}
+          id={composition.id}
+          component={composition.component}
+          durationInFrames={composition.durationInFrames}
+          fps={composition.fps}
+          width={composition.width}
+          height={composition.height}
+          schema={composition.schema}
+          defaultProps={composition.defaultProps}
+          calculateMetadata={composition.calculateMetadata}
+        />
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,188 @@
+import { staticFile } from 'remotion';
+import { getAudioData, MediaUtilsAudioData, visualizeAudio } from '@remotion/media-utils';
+import { useDelayedFetch } from './delayedFetch';
+
+// =============================================================================
+// AUDIO SOURCES
+// =============================================================================
+// `audioSrc` props accept a file in public/ ("music/track.mp3") or a full URL.
+export const resolveAudioSrc = (src: string): string => {
+  return /^https?:\/\//.test(src) ? src : staticFile(src);
+};
+
+// Decodes the track and holds rendering until it is ready (see delayedFetch.ts).
+// An empty `src` means "no audio" and returns null immediately, so components
+// can keep their non-audio animation as the fallback.
+export const useAudioTrack = (src: string): MediaUtilsAudioData | null => {
+  return useDelayedFetch(src, 'audio', (file) => getAudioData(resolveAudioSrc(file)));
+};
+
+// =============================================================================
+// SPECTRUM
+// =============================================================================
+const FFT_SIZE = 1024;  // Linear bins from 0 Hz to sampleRate / 2 (power of two)
+const MIN_DB = -50;     // Magnitudes at or below this read as 0
+const MAX_DB = -10;     // ...and at or above this as 1
+
+export interface SpectrumOptions {
+  bandCount: number;
+  minFrequency?: number; // Hz, lower edge of the first band
+  maxFrequency?: number; // Hz, upper edge of the last band
+}
+
+// Per-band levels (0..1) for a single frame. Bands are spaced logarithmically
+// so bass, mids and highs each get a fair share of the bars instead of the
+// bass eating a handful of bars and the highs the rest.
+export const getSpectrumBands = (
+  audioData: MediaUtilsAudioData,
+  frame: number,
+  fps: number,
+  { bandCount, minFrequency = 40, maxFrequency = 16000 }: SpectrumOptions,
+): number[] => {
+  const spectrum = visualizeAudio({
+    audioData,
+    frame,
+    fps,
+    numberOfSamples: FFT_SIZE,
+    optimizeFor: 'speed',
+    smoothing: false,
+  });
+
+  const hzPerBin = audioData.sampleRate / 2 / FFT_SIZE;
+  const top = Math.min(maxFrequency, audioData.sampleRate / 2);
+  const ratio = top / minFrequency;
+
+  return new Array(bandCount).fill(0).map((_, band) => {
+    const lowHz = minFrequency * Math.pow(ratio, band / bandCount);
+    const highHz = minFrequency * Math.pow(ratio, (band + 1) / bandCount);
+    const lowBin = Math.floor(lowHz / hzPerBin);
+    // Narrow low bands may fall between two bins; always read at least one
+    const highBin = Math.max(lowBin + 1, Math.ceil(highHz / hzPerBin));
+
+    let peak = 0;
+    for (let bin = lowBin; bin < highBin && bin < spectrum.length; bin++) {
+      peak = Math.max(peak, spectrum[bin]);
+    }
+
+    const db = 20 * Math.log10(Math.max(peak, 1e-10));
+    return Math.min(1, Math.max(0, (db - MIN_DB) / (MAX_DB - MIN_DB)));
+  });
+};
+
+// =============================================================================
+// DECAY & PEAK HOLD
+// =============================================================================
+export interface MeterOptions {
+  decayFrames: number;     // Frames a level takes to fall from 1 to 0
+  peakHoldFrames: number;  // Frames a peak cap stays put before falling
+  peakFallFrames: number;  // Frames a held cap takes to fall from 1 to 0
+}
+
+export interface MeterLevels {
+  levels: number[];
+  peaks: number[];
+}
+
+// Classic meter ballistics: instant attack, linear release, peak caps that hang
+// and then drop. Worked out by looking back over previous frames rather than
+// carrying state, so every frame renders the same in isolation. `getLevels` is
+// also asked for negative frames (silence for a track, the wrapped-around
+// value for a looping source).
+export const getMeterLevels = (
+  getLevels: (frame: number) => number[],
+  frame: number,
+  { decayFrames, peakHoldFrames, peakFallFrames }: MeterOptions,
+): MeterLevels => {
+  const lookBack = Math.max(decayFrames, peakHoldFrames + peakFallFrames);
+  const current = getLevels(frame);
+  const levels = [...current];
+  const peaks = [...current];
+
+  for (let age = 1; age <= lookBack; age++) {
+    const past = getLevels(frame - age);
+    const decay = decayFrames > 0 ? age / decayFrames : 1;
+    const fall = age <= peakHoldFrames
+      ? 0
+      : peakFallFrames > 0 ? (age - peakHoldFrames) / peakFallFrames : 1;
+
+    past.forEach((value, i) => {
+      levels[i] = Math.max(levels[i], value - decay);
+      peaks[i] = Math.max(peaks[i], value - fall);
+    });
+  }
+
+  return { levels, peaks };
+};
+
+// =============================================================================
+// LOUDNESS
+// =============================================================================
+const LOUDNESS_MIN_DB = -48; // RMS at or below this reads as 0
+const LOUDNESS_MAX_DB = -6;  // ...and at or above this as 1
+
+// Loudness (0..1) of the samples under one frame, all channels mixed. Frames
+// outside the track are silent. Feed it through getMeterLevels() for a level
+// that falls smoothly instead of flickering with every transient.
+export const getLoudness = (
+  audioData: MediaUtilsAudioData,
+  frame: number,
+  fps: number,
+): number => {
+  const length = audioData.channelWaveforms[0]?.length ?? 0;
+  const start = Math.floor((frame / fps) * audioData.sampleRate);
+  const end = Math.min(length, Math.floor(((frame + 1) / fps) * audioData.sampleRate));
+  if (start < 0 || start >= end) return 0;
+
+  let sum = 0;
+  audioData.channelWaveforms.forEach((samples) => {
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+  });
+  const rms = Math.sqrt(sum / ((end - start) * audioData.channelWaveforms.length));
+
+  const db = 20 * Math.log10(Math.max(rms, 1e-10));
+  return Math.min(1, Math.max(0, (db - LOUDNESS_MIN_DB) / (LOUDNESS_MAX_DB - LOUDNESS_MIN_DB)));
+};
+
+// =============================================================================
+// ONSETS
+// =============================================================================
+export interface Onset {
+  frame: number;
+  strength: number; // Loudness (0..1) at the onset
+}
+
+export interface OnsetOptions {
+  sensitivity?: number;   // Minimum jump above the recent average (0..1); lower = more onsets
+  minGapFrames?: number;  // Onsets closer together than this are merged
+}
+
+// Frames where the track suddenly gets louder than it has been for the last
+// half second: drum hits, beats, vocal attacks. Scans the whole track, so
+// compute it once per track (useMemo) and look the current frame up in it.
+export const detectOnsets = (
+  audioData: MediaUtilsAudioData,
+  fps: number,
+  { sensitivity = 0.12, minGapFrames = 6 }: OnsetOptions = {},
+): Onset[] => {
+  const frameCount = Math.ceil(audioData.durationInSeconds * fps);
+  const loudness = new Array(frameCount).fill(0).map((_, f) => getLoudness(audioData, f, fps));
+  const historyFrames = Math.max(1, Math.round(fps / 2));
+  const onsets: Onset[] = [];
+
+  loudness.forEach((value, f) => {
+    const history = loudness.slice(Math.max(0, f - historyFrames), f);
+    const average = history.length > 0
+      ? history.reduce((a, b) => a + b, 0) / history.length
+      : 0;
+    const isRising = value > (loudness[f - 1] ?? 0);
+    const last = onsets[onsets.length - 1];
+
+    if (isRising && value - average > sensitivity && (!last || f - last.frame >= minGapFrames)) {
+      onsets.push({ frame: f, strength: value });
+    }
+  });
+
+  return onsets;
+};
@@ -4,32 +4,39 @@ import {
   useCurrentFrame,
   useVideoConfig,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const auroraMeshSchema = z.object({
+  // The blob layout reads the first five entries. Colors default to the
+  // active theme; set them to override it here only.
+  colors: z.array(zColor()).min(5).optional(),
+  bgColor: zColor().optional(), // Fill for a solid background; chroma/transparent ignore it
+  blurAmount: z.number().min(0),
+  noiseOpacity: z.number().min(0).max(1),
+});
+
 export const compositionConfig = {
   id: 'AuroraMeshGradient',
   durationInSeconds: 8, // Seamless loop
+  loop: true,
   fps: 30,
   width: 4096, // 4K Resolution
   height: 2160,
+  schema: auroraMeshSchema,
   defaultProps: {
-    // northern lights palette
-   colors: [
-      '#00d2ff', // Clean Blue (Primary)
-      '#00ff9d', // Spring Green (Primary)
-      '#006994', // Sea Blue (Primary)
-      '#004d40', // Deep Teal (Depth)
-      '#e0f7fa', // Very Pale Cyan (Highlight)
-    ],
-    bgColor: '#00151a', // Deep Teal Black
     blurAmount: 220,    // Higher blur for smoother water effect
     noiseOpacity: 0.02, // Lower noise for clean medical look
   },
 };
 
-type AuroraMeshProps = typeof compositionConfig.defaultProps;
+type AuroraMeshProps = z.infer<typeof auroraMeshSchema>;
 
 // =============================================================================
 // SUB-COMPONENT: ORGANIC BLOB
@@ -89,12 +96,27 @@ const OrganicBlob: React.FC<{
 // MAIN COMPONENT
 // =============================================================================
 const AuroraMeshGradient: React.FC<AuroraMeshProps> = ({
-  colors,
-  bgColor,
+  colors: colorsProp,
+  bgColor: bgColorProp,
   blurAmount,
   noiseOpacity,
 }) => {
   const { width, height } = useVideoConfig();
+  const { palette } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+
+  // Theme palette: two bright primaries, two deeper tones and a highlight
+  const colors = colorsProp ?? [
+    palette.primary,
+    palette.secondary,
+    mixColor(palette.primary, 0.5, palette.background),
+    mixColor(palette.secondary, 0.3, palette.background),
+    palette.accent,
+  ];
+  const bgColor = background.isSolid
+    ? bgColorProp ?? mixColor(palette.primary, 0.08, palette.background)
+    : background.color;
 
   // Generate a fixed set of blobs based on the color palette
   // We create 6 blobs (recycling colors if needed) to fill the 4K space
@@ -111,7 +133,7 @@ const AuroraMeshGradient: React.FC<AuroraMeshProps> = ({
       
       {/* 1. The Blended Mesh Layer */}
       {/* We wrap the blobs in a div with massive blur to merge them */}
-      <AbsoluteFill style={{ filter: `blur(${blurAmount}px) saturate(1.4)` }}>
+      <AbsoluteFill style={{ filter: `blur(${blurAmount * scale}px) saturate(1.4)` }}>
         {blobs.map((blob, i) => (
           <OrganicBlob
             key={i}
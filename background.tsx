@@ -0,0 +1,66 @@
+import React, { createContext, useContext } from 'react';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { useTheme } from './theme';
+
+// =============================================================================
+// TYPES & SCHEMAS
+// =============================================================================
+// What every composition paints behind its content:
+//   solid       - an opaque color (the theme background unless `color` is set)
+//   chroma      - a flat key color for green-screen compositing
+//   transparent - nothing; render with an alpha preset (renderPresets.ts)
+export const backgroundSchema = z.object({
+  mode: z.enum(['solid', 'chroma', 'transparent']),
+  color: zColor().optional(), // Ignored for 'transparent'
+});
+
+export type Background = z.infer<typeof backgroundSchema>;
+export type BackgroundMode = Background['mode'];
+
+export const DEFAULT_BACKGROUND: Background = { mode: 'solid' };
+
+export const CHROMA_GREEN = '#00FF00';
+
+export interface ResolvedBackground {
+  mode: BackgroundMode;
+  color: string;     // CSS color for the composition's root fill
+  isSolid: boolean;  // Vignettes and backdrop shading only make sense on solid
+}
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+const BackgroundContext = createContext<Background>(DEFAULT_BACKGROUND);
+
+export const useBackground = (): ResolvedBackground => {
+  const { mode, color } = useContext(BackgroundContext);
+  const { palette } = useTheme();
+
+  if (mode === 'transparent') {
+    return { mode, color: 'transparent', isSolid: false };
+  }
+  if (mode === 'chroma') {
+    return { mode, color: color ?? CHROMA_GREEN, isSolid: false };
+  }
+  return { mode, color: color ?? palette.background, isSolid: true };
+};
+
+// Wraps a composition component so it reads its `background` prop from context.
+// The prop itself is not passed on.
+export const withBackground = <P extends object>(
+  Component: React.ComponentType<P>,
+): React.FC<P & { background?: Background }> => {
+  const WithBackground: React.FC<P & { background?: Background }> = ({
+    background = DEFAULT_BACKGROUND,
+    ...props
+  }) => {
+    return (
+      <BackgroundContext.Provider value={background}>
+        <Component {...(props as P)} />
+      </BackgroundContext.Provider>
+    );
+  };
+  WithBackground.displayName = `WithBackground(${Component.displayName ?? Component.name})`;
+  return WithBackground;
+};
@@ -5,29 +5,66 @@ import {
   interpolate,
   spring,
   useVideoConfig,
+  Easing,
 } from 'remotion';
-import { loadFont } from "@remotion/google-fonts/Oswald"; // Standard News Font
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { measureText } from '@remotion/layout-utils';
 import { BiWorld } from "react-icons/bi";
-
-// 1. Load "News" Style Font (Bold & Condensed)
-const { fontFamily } = loadFont();
+import { fontFamilySchema, useFont } from './fonts';
+import { useNewsFeed } from './newsFeed';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useOrientation, useScale } from './layout';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const breakingNewsSchema = z.object({
+  // Colors default to the active theme; set one to override it here only
+  primaryColor: zColor().optional(),   // Category box and LIVE text
+  secondaryColor: zColor().optional(), // Headline box
+  tickerColor: zColor().optional(),
+  accentColor: zColor().optional(),
+  fontFamily: fontFamilySchema.optional(), // Google Font or font file (see fonts.ts)
+  headlines: z.array(z.string()).min(1), // Rotated in order, looping
+  headlineSeconds: z.number().positive(), // Time each headline stays up
+  tickerItems: z.array(z.string()).min(1),
+  tickerSeparator: z.string(),
+  tickerSpeed: z.number().positive(),     // Pixels per second (4K design pixels)
+  feedSrc: z.string(), // Optional JSON/RSS file in public/ that replaces the lists above
+  exitSeconds: z.number().min(0),         // Slide-out at the end; 0 = stay on screen
+  categoryText: z.string(),
+});
+
+type NewsProps = z.infer<typeof breakingNewsSchema>;
+
 export const newsConfig = {
   id: 'BreakingNews',
   durationInSeconds: 10,
   fps: 30,
   width: 3840, // 4K
   height: 2160,
+  schema: breakingNewsSchema,
   defaultProps: {
-    primaryColor: '#D00000', // Classic News Red
-    secondaryColor: '#FFFFFF',
-    tickerColor: '#1a1a1a', // Dark Grey/Black for ticker
-    accentColor: '#FFD700', // Gold/Yellow accent
-    headlineText: "MAJOR CYBER ATTACK REPORTED GLOBALLY",
-    tickerText: " •  URGENT: INTERNET SERVICES DISRUPTED IN MULTIPLE REGIONS  •  EXPERTS ADVISE CAUTION  •  STAY TUNED FOR LIVE UPDATES  •  MARKETS REACT SHARPLY TO OUTAGE",
+    theme: 'broadcast', // Classic news red, white and gold
+    background: { mode: 'transparent' }, // Lower third: composited over the program feed
+    fontFamily: 'Oswald', // Standard news font: bold and condensed
+    headlines: [
+      "MAJOR CYBER ATTACK REPORTED GLOBALLY",
+      "INTERNET SERVICES DISRUPTED IN MULTIPLE REGIONS",
+    ],
+    headlineSeconds: 5,
+    tickerItems: [
+      "URGENT: INTERNET SERVICES DISRUPTED IN MULTIPLE REGIONS",
+      "EXPERTS ADVISE CAUTION",
+      "STAY TUNED FOR LIVE UPDATES",
+      "MARKETS REACT SHARPLY TO OUTAGE",
+    ],
+    tickerSeparator: "  •  ",
+    tickerSpeed: 180, // Matches the old 6px per frame at 30fps
+    feedSrc: "",
+    exitSeconds: 0.75,
     categoryText: "BREAKING NEWS",
   }
 };
@@ -37,6 +74,7 @@ export const newsConfig = {
 // =============================================================================
 const RotatingGlobe = ({ color }: { color: string }) => {
     const frame = useCurrentFrame();
+    const scale = useScale();
     // Slow rotation
     const rotation = interpolate(frame, [0, 300], [0, 360]); 
     
@@ -45,7 +83,7 @@ const RotatingGlobe = ({ color }: { color: string }) => {
             display: 'flex', alignItems: 'center', justifyContent: 'center',
             transform: `rotate(${rotation}deg)`
         }}>
-            <BiWorld size={80} color={color} />
+            <BiWorld size={80 * scale} color={color} />
         </div>
     );
 };
@@ -53,124 +91,217 @@ const RotatingGlobe = ({ color }: { color: string }) => {
 // =============================================================================
 // SUB-COMPONENT: LIVE INDICATOR
 // =============================================================================
-const LiveIndicator = () => {
+const LiveIndicator = ({ color }: { color: string }) => {
     const frame = useCurrentFrame();
+    const scale = useScale();
     // Blinking effect
     const opacity = interpolate(frame % 30, [0, 15, 30], [1, 0.4, 1]);
 
     return (
         <div style={{
-            position: 'absolute', top: -60, left: 0,
-            background: 'white', color: '#D00000',
-            padding: '5px 15px', fontWeight: 900, fontSize: 24,
-            borderRadius: 4, letterSpacing: 2,
+            position: 'absolute', top: -60 * scale, left: 0,
+            background: 'white', color: color,
+            padding: `${5 * scale}px ${15 * scale}px`, fontWeight: 900, fontSize: 24 * scale,
+            borderRadius: 4 * scale, letterSpacing: 2 * scale,
             opacity: opacity,
-            boxShadow: '0 0 10px rgba(0,0,0,0.5)'
+            boxShadow: `0 0 ${10 * scale}px rgba(0,0,0,0.5)`
         }}>
             LIVE
         </div>
     );
 };
 
+// =============================================================================
+// SUB-COMPONENT: ROTATING HEADLINE
+// =============================================================================
+// Each headline rises in from below and leaves upwards. The very first one keeps
+// the original fade-in so it appears after the bar has landed.
+const HEADLINE_TRANSITION_FRAMES = 12;
+
+const RotatingHeadline = ({ headlines, headlineSeconds }: { headlines: string[]; headlineSeconds: number }) => {
+    const frame = useCurrentFrame();
+    const { fps } = useVideoConfig();
+
+    const isRotating = headlines.length > 1;
+    const slotFrames = Math.max(1, Math.round(headlineSeconds * fps));
+    // A single headline enters once and stays: there is nothing to rotate to
+    const slot = isRotating ? Math.floor(frame / slotFrames) : 0;
+    const localFrame = frame % slotFrames;
+    const text = headlines[slot % headlines.length];
+
+    const enter = slot === 0
+        ? interpolate(frame, [15, 25], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' })
+        : interpolate(localFrame, [0, HEADLINE_TRANSITION_FRAMES], [0, 1], {
+            easing: Easing.out(Easing.cubic),
+            extrapolateRight: 'clamp',
+        });
+    const exit = isRotating
+        ? interpolate(localFrame, [slotFrames - HEADLINE_TRANSITION_FRAMES, slotFrames], [0, 1], {
+            easing: Easing.in(Easing.cubic),
+            extrapolateLeft: 'clamp',
+            extrapolateRight: 'clamp',
+        })
+        : 0;
+
+    // Rise 100% -> 0% on enter, 0% -> -100% on exit
+    const translateY = slot === 0 ? -exit * 100 : (1 - enter) * 100 - exit * 100;
+
+    return (
+        <span style={{
+            display: 'inline-block',
+            opacity: Math.min(enter, 1 - exit),
+            transform: `translateY(${translateY}%)`,
+            whiteSpace: 'nowrap',
+        }}>
+            {text}
+        </span>
+    );
+};
+
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
-export const BreakingNews: React.FC<typeof newsConfig.defaultProps> = (props) => {
+// Sizes in 4K design pixels (see layout.ts)
+const TICKER_FONT_SIZE = 35;
+const TICKER_FONT_WEIGHT = 500;
+const TICKER_LETTER_SPACING = 1.5;
+
+export const BreakingNews: React.FC<NewsProps> = (props) => {
   const frame = useCurrentFrame();
-  const { fps, width, height } = useVideoConfig();
+  const { fps, width, height, durationInFrames } = useVideoConfig();
+  const feed = useNewsFeed(props.feedSrc);
+  // measureText() below must wait for the font (see useFont)
+  const { fontFamily, ready: fontReady } = useFont(props.fontFamily, [500, 700, 900]);
+  const { palette } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  // Vertical frames stack the category box on top of the headline
+  const stacked = useOrientation() === 'portrait';
+  const primaryColor = props.primaryColor ?? palette.primary;
+  const secondaryColor = props.secondaryColor ?? palette.secondary;
+  const tickerColor = props.tickerColor ?? palette.background;
+  const accentColor = props.accentColor ?? palette.accent;
+
+  // Feed file contents win over the props, list by list
+  const headlines = feed?.headlines?.length ? feed.headlines : props.headlines;
+  const tickerItems = feed?.tickerItems?.length ? feed.tickerItems : props.tickerItems;
 
   // --- ANIMATIONS ---
   
-  // 1. Main Slide In (Spring)
+  // 1. Main Slide In (Spring) and Slide Out (ease in over the last exitSeconds)
   const entrySpr = spring({ frame, fps, config: { damping: 14, stiffness: 80 } });
   const slideIn = interpolate(entrySpr, [0, 1], [-width, 0]); // Slide from left
+  const exitFrames = Math.round(props.exitSeconds * fps);
+  const slideOut = exitFrames > 0
+    ? interpolate(frame, [durationInFrames - exitFrames, durationInFrames - 1], [0, -width], {
+        easing: Easing.in(Easing.cubic),
+        extrapolateLeft: 'clamp',
+        extrapolateRight: 'clamp',
+      })
+    : 0;
   
-  // 2. Ticker Scroll (Linear, Infinite loop feel)
-  // Adjust speed by changing the divisor (e.g., frame * 4)
-  const tickerOffset = (frame * 6) % 2000; 
-
-  // 3. Text Reveal
-  const textOpacity = interpolate(frame, [15, 25], [0, 1]);
+  // 2. Ticker Scroll (Seamless)
+  // One "cycle" is every item followed by a separator. Scrolling by exactly its
+  // measured width and repeating it lands each copy where the previous one was.
+  const cycleText = tickerItems.map((item) => `${item}${props.tickerSeparator}`).join('');
+  const cycleWidth = fontReady
+    ? measureText({
+        text: cycleText,
+        fontFamily,
+        fontSize: TICKER_FONT_SIZE * scale,
+        fontWeight: TICKER_FONT_WEIGHT,
+        letterSpacing: `${TICKER_LETTER_SPACING * scale}px`,
+      }).width
+    : 0;
+  const tickerOffset = cycleWidth > 0 ? ((frame / fps) * props.tickerSpeed * scale) % cycleWidth : 0;
+  // Enough copies to cover the ticker box, plus one scrolling in from the right
+  const tickerCopies = cycleWidth > 0 ? Math.ceil(width / cycleWidth) + 1 : 1;
 
 
   // --- STYLES ---
 
   const containerStyle: React.CSSProperties = {
       position: 'absolute',
-      bottom: 150, // Distance from bottom
-      left: 100, // Distance from left
-      width: width - 200, // Full width minus margins
+      // Distance from bottom (vertical: above the app's caption and button area)
+      bottom: stacked ? height * 0.2 : 150 * scale,
+      left: 100 * scale, // Distance from left
+      width: width - 200 * scale, // Full width minus margins
       fontFamily: fontFamily,
-      transform: `translateX(${slideIn}px)`,
+      transform: `translateX(${slideIn + slideOut}px)`,
   };
 
   const mainBarStyle: React.CSSProperties = {
       display: 'flex',
-      height: 220,
-      boxShadow: '0 10px 30px rgba(0,0,0,0.5)',
+      flexDirection: stacked ? 'column' : 'row',
+      height: stacked ? 320 * scale : 220 * scale,
+      boxShadow: `0 ${10 * scale}px ${30 * scale}px rgba(0,0,0,0.5)`,
   };
 
   const categoryBoxStyle: React.CSSProperties = {
-      width: 650,
-      background: `linear-gradient(90deg, ${props.primaryColor} 0%, #a00000 100%)`, // Gradient Red
+      width: stacked ? '100%' : 650 * scale,
+      height: stacked ? 140 * scale : undefined,
+      background: `linear-gradient(90deg, ${primaryColor} 0%, ${mixColor(primaryColor, 0.77, 'black')} 100%)`, // Darkening gradient
       color: 'white',
       display: 'flex',
       alignItems: 'center',
       justifyContent: 'center',
-      fontSize: 80,
+      fontSize: 80 * scale,
       fontWeight: 900,
       textTransform: 'uppercase',
-      clipPath: 'polygon(0 0, 100% 0, 90% 100%, 0% 100%)', // Slanted edge
+      clipPath: stacked
+        ? 'polygon(0 0, 100% 0, 97% 100%, 0% 100%)' // Shallower slant across the full width
+        : 'polygon(0 0, 100% 0, 90% 100%, 0% 100%)', // Slanted edge
       zIndex: 10,
       position: 'relative',
   };
 
   const headlineBoxStyle: React.CSSProperties = {
       flex: 1,
-      background: 'rgba(255, 255, 255, 0.95)',
+      background: mixColor(secondaryColor, 0.95),
       color: 'black',
       display: 'flex',
       alignItems: 'center',
-      paddingLeft: 80, // Offset for the slant
-      marginLeft: -50, // Pull behind the red box
-      fontSize: 70,
+      paddingLeft: (stacked ? 30 : 80) * scale, // Offset for the slant
+      marginLeft: stacked ? 0 : -50 * scale, // Pull behind the red box
+      fontSize: 70 * scale,
       fontWeight: 700,
       textTransform: 'uppercase',
+      overflow: 'hidden', // Clips headlines while they slide in and out
       clipPath: 'polygon(0 0, 100% 0, 95% 100%, 0% 100%)', // Slanted edge right
   };
 
   const tickerBoxStyle: React.CSSProperties = {
-      height: 80,
-      width: '94%', // Slightly shorter than main bar
-      background: props.tickerColor,
+      height: 80 * scale,
+      width: stacked ? '100%' : '94%', // Slightly shorter than main bar
+      background: tickerColor,
       marginTop: 0,
-      marginLeft: 20,
+      marginLeft: stacked ? 0 : 20 * scale,
       display: 'flex',
       alignItems: 'center',
       overflow: 'hidden',
       position: 'relative',
       color: '#fff',
-      fontSize: 35,
-      fontWeight: 500,
-      letterSpacing: 1.5,
+      fontSize: TICKER_FONT_SIZE * scale,
+      fontWeight: TICKER_FONT_WEIGHT,
+      letterSpacing: TICKER_LETTER_SPACING * scale,
       clipPath: 'polygon(0 0, 100% 0, 99% 100%, 1% 100%)', // Subtle trapizoid
   };
 
   return (
-    <AbsoluteFill style={{ backgroundColor: 'transparent' }}>
+    <AbsoluteFill style={{ backgroundColor: background.color }}>
       
       {/* Lower Third Container */}
       <div style={containerStyle}>
         
         {/* "LIVE" Tag */}
-        <LiveIndicator />
+        <LiveIndicator color={primaryColor} />
 
         {/* Top Row: Category + Headline */}
         <div style={mainBarStyle}>
             
             {/* Red "BREAKING NEWS" Box */}
             <div style={categoryBoxStyle}>
-                <div style={{ marginRight: 20 }}>
+                <div style={{ marginRight: 20 * scale }}>
                     <RotatingGlobe color="rgba(255,255,255,0.4)" />
                 </div>
                 {props.categoryText}
@@ -183,9 +314,7 @@ export const BreakingNews: React.FC<typeof newsConfig.defaultProps> = (props) =>
 
             {/* White Headline Box */}
             <div style={headlineBoxStyle}>
-                <span style={{ opacity: textOpacity }}>
-                    {props.headlineText}
-                </span>
+                <RotatingHeadline headlines={headlines} headlineSeconds={props.headlineSeconds} />
             </div>
         </div>
 
@@ -193,30 +322,28 @@ export const BreakingNews: React.FC<typeof newsConfig.defaultProps> = (props) =>
         <div style={tickerBoxStyle}>
             {/* Ticker Label */}
             <div style={{
-                background: props.accentColor,
+                background: accentColor,
                 color: 'black',
                 height: '100%',
-                padding: '0 20px',
+                padding: `0 ${20 * scale}px`,
                 display: 'flex', alignItems: 'center',
                 fontWeight: 900,
                 zIndex: 5,
-                boxShadow: '5px 0 15px rgba(0,0,0,0.3)'
+                boxShadow: `${5 * scale}px 0 ${15 * scale}px rgba(0,0,0,0.3)`
             }}>
                 UPDATE
             </div>
             
-            {/* Scrolling Text Content (Duplicated for illusion of length) */}
+            {/* Scrolling Text Content (Repeated cycles, no gaps between copies) */}
             <div style={{ 
-                whiteSpace: 'nowrap', 
+                whiteSpace: 'pre', 
                 transform: `translateX(-${tickerOffset}px)`,
-                paddingLeft: 20,
+                paddingLeft: 20 * scale,
                 display: 'flex',
-                gap: 50
             }}>
-                <span>{props.tickerText}</span>
-                <span>{props.tickerText}</span> 
-                <span>{props.tickerText}</span>
-                <span>{props.tickerText}</span>
+                {new Array(tickerCopies).fill(0).map((_, i) => (
+                    <span key={i}>{cycleText}</span>
+                ))}
             </div>
         </div>
 
@@ -6,24 +6,39 @@ import {
   interpolate,
   Easing,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const speedDemonSchema = z.object({
+  primaryColor: zColor().optional(), // Defaults to the theme's primary color
+  iconSize: z.number().positive(),
+  strokeThickness: z.number().positive(),
+}).refine((props) => props.strokeThickness < props.iconSize / 2, {
+  message: 'strokeThickness must be less than half of iconSize',
+  path: ['strokeThickness'],
+});
+
 export const compositionConfig = {
   id: 'SpeedDemonSpinner',
   durationInFrames: 300, // 10 seconds for a long, seamless loop
+  loop: true,
   fps: 30,
   width: 3840, // 4K
   height: 2160,
+  schema: speedDemonSchema,
   defaultProps: {
-    cyanColor: '#00FFFF', // Bright Cyan Head
     iconSize: 1200,
     strokeThickness: 40, // Beefy, powerful stroke
   },
 };
 
-type Props = typeof compositionConfig.defaultProps;
+type Props = z.infer<typeof speedDemonSchema>;
 
 // =============================================================================
 // ANIMATION PHYSICS (The Speed Ramping)
@@ -85,9 +100,19 @@ const CometSegment: React.FC<CometSegmentProps> = ({
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
-const SpeedDemonSpinner: React.FC<Props> = ({ cyanColor, iconSize, strokeThickness }) => {
+const SpeedDemonSpinner: React.FC<Props> = ({
+  primaryColor,
+  iconSize: designIconSize,
+  strokeThickness: designStrokeThickness,
+}) => {
   const frame = useCurrentFrame();
   const { durationInFrames } = useVideoConfig();
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const iconSize = designIconSize * scale;
+  const strokeThickness = designStrokeThickness * scale;
+  const headColor = primaryColor ?? palette.primary;
 
   // --- GEOMETRY ---
   const center = iconSize / 2;
@@ -124,7 +149,7 @@ const SpeedDemonSpinner: React.FC<Props> = ({ cyanColor, iconSize, strokeThickne
           // Head is opacity 1, tail fades to 0
           const opacity = interpolate(i, [0, numTailSegments - 1], [1, 0]);
           // Head is sharp, tail gets blurrier
-          const blur = interpolate(i, [0, numTailSegments - 1], [0, 20]);
+          const blur = interpolate(i, [0, numTailSegments - 1], [0, 20 * scale]);
           // Each segment lags slightly behind the previous one
           const rotationLag = i * 2.5; // degrees of lag per segment
           // Tail segments are slightly longer to fill gaps, head is shortest/brightest
@@ -133,7 +158,7 @@ const SpeedDemonSpinner: React.FC<Props> = ({ cyanColor, iconSize, strokeThickne
           return (
               <CometSegment 
                   key={i}
-                  center={center} radius={radius} thickness={strokeThickness} color={cyanColor} perimeter={perimeter}
+                  center={center} radius={radius} thickness={strokeThickness} color={headColor} perimeter={perimeter}
                   // Dynamic props based on stack position
                   opacity={opacity}
                   blur={blur}
@@ -143,13 +168,13 @@ const SpeedDemonSpinner: React.FC<Props> = ({ cyanColor, iconSize, strokeThickne
           );
       });
        // Reverse so the head (index 0) is rendered last (on top)
-  }, [center, radius, strokeThickness, cyanColor, perimeter, totalRotation]).reverse();
+  }, [center, radius, strokeThickness, headColor, perimeter, totalRotation, scale]).reverse();
 
 
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#000000', // Deep black background
+        backgroundColor: background.color,
         display: 'flex',
         justifyContent: 'center',
         alignItems: 'center',
@@ -160,7 +185,7 @@ const SpeedDemonSpinner: React.FC<Props> = ({ cyanColor, iconSize, strokeThickne
         
         {/* Optional subtle background track for high-end tech feel */}
         <svg width={iconSize} height={iconSize} style={{ position: 'absolute', opacity: 0.1 }}>
-            <circle cx={center} cy={center} r={radius} fill="none" stroke={cyanColor} strokeWidth={strokeThickness/2} />
+            <circle cx={center} cy={center} r={radius} fill="none" stroke={headColor} strokeWidth={strokeThickness/2} />
         </svg>
 
         {/* The Comet Tail Stack */}
@@ -168,7 +193,7 @@ const SpeedDemonSpinner: React.FC<Props> = ({ cyanColor, iconSize, strokeThickne
             {/* Add a global bloom filter for that extra "powerful light" feel */}
             <defs>
                 <filter id="powerful-bloom">
-                    <feGaussianBlur in="SourceGraphic" stdDeviation="10" result="blur" />
+                    <feGaussianBlur in="SourceGraphic" stdDeviation={10 * glowStrength * scale} result="blur" />
                     <feColorMatrix in="blur" type="matrix" values="
                         1 0 0 0 0
                         0 1 0 0 0
@@ -0,0 +1,227 @@
+import type React from 'react';
+import type { CalculateMetadataFunction } from 'remotion';
+import { z } from 'zod';
+
+import { compositionConfig as neonEKGConfig, NeonEKG } from './EKGflatline';
+import { compositionConfig as fallingHeartsConfig } from './HeartsFallingOverlay';
+import { compositionConfig as neonLiveConfig } from './LIVEind';
+import { compositionConfig as neonRecConfig } from './RECblink';
+import AuroraMeshGradient, { compositionConfig as auroraConfig } from './auroraMeshGradient';
+import { newsConfig, BreakingNews } from './breakingNews';
+import SpeedDemonSpinner, { compositionConfig as speedDemonConfig } from './commetSpinner';
+import ErrorCross, { compositionConfig as errorCrossConfig } from './cross';
+import CyberpunkDataRing, { compositionConfig as cyberpunkRingConfig } from './cyberPunkLoadinRing';
+import NeonGrowth, { compositionConfig as neonGrowthConfig } from './dollarArrow';
+import { compositionConfig as neonEqualizerConfig } from './equalizerNeon';
+import NeonYearLoad, { compositionConfig as neonYearLoadConfig } from './gameStyleLoadingwithstartEndtext';
+import ReededGlassGold, { compositionConfig as reededGlassGoldConfig } from './glassRibbedBackground';
+import StreamGlitch, { compositionConfig as streamGlitchConfig } from './glitchScanStartingSoon';
+import GlowingLights, { compositionConfig as glowingLightsConfig } from './glowingLights';
+import NeonCircleFrame, { compositionConfig as neonCircleConfig } from './gradientGlowingCircle';
+import { compositionConfig as cleanProgressConfig, CleanProgressBar } from './greenprogressbar';
+import GyroscopeV2, { compositionConfig as gyroscopeConfig } from './gyrospinner';
+import { compositionConfig as stringLightsConfig, GlowingStringLights } from './lightStringsCombo';
+import NeonSaberCountdown, { compositionConfig as saberCountdownConfig } from './neonSaberCountdown';
+import ParticleField, { compositionConfig as particleFieldConfig } from './particleField';
+import FloatingSlider, { compositionConfig as floatingSliderConfig } from './progressTrackingLoadingBar';
+import NeonRadioWaves, { compositionConfig as radioWavesConfig } from './radioSignalWaveCircle';
+import ReededGlassPink, { compositionConfig as reededGlassPinkConfig } from './reedglassbackground';
+import SegmentedCountdown, { compositionConfig as segmentedCountdownConfig } from './segmentedCountdown30';
+import ShapeShifter, { compositionConfig as shapeShifterConfig } from './shapeShifter';
+import DualNeonChase, { compositionConfig as dualNeonChaseConfig } from './streamBorderSaber';
+import StreamFrame, { compositionConfig as streamFrameConfig } from './streamFrame';
+import SuccessCheckmark, { compositionConfig as successCheckmarkConfig } from './successTick';
+import ZenProgressBar, { compositionConfig as zenProgressConfig } from './zenProgressbar';
+import { DEFAULT_THEME, themeSettingSchema, withTheme } from './theme';
+import { backgroundSchema, DEFAULT_BACKGROUND, withBackground } from './background';
+import type { Background } from './background';
+import { getDefaultPreset, RENDER_PRESETS } from './renderPresets';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+// The shape shared by every exported config. Length is given either as a fixed
+// frame count or in seconds, and only some configs carry their own component.
+// `loop: true` claims that, with the default props, the frame after the last
+// matches frame 0 so the clip can repeat without a pop. scripts/verifyLoops.ts
+// checks the claim.
+export interface CompositionConfig {
+  id: string;
+  fps: number;
+  width: number;
+  height: number;
+  durationInFrames?: number;
+  durationInSeconds?: number;
+  loop?: boolean;
+  component?: React.ComponentType<any>;
+  schema?: z.ZodObject;
+  defaultProps?: Record<string, unknown>;
+}
+
+// A config normalised into everything <Composition> needs.
+export interface RegisteredComposition {
+  id: string;
+  component: React.ComponentType<any>;
+  durationInFrames: number;
+  fps: number;
+  width: number;
+  height: number;
+  schema: z.ZodObject;
+  defaultProps: Record<string, unknown>;
+  calculateMetadata: CalculateMetadataFunction<Record<string, unknown>>;
+  loop: boolean;
+}
+
+// =============================================================================
+// HELPER: NORMALISE A CONFIG
+// =============================================================================
+// `component` is the module's exported component, used when the config does not
+// name one itself. A config's own `component` field always wins.
+// Every composition also gets a `theme` prop (see theme.tsx) and a `background`
+// prop (see background.tsx); a config can pick its own defaults by listing them
+// in its defaultProps.
+export const resolveComposition = (
+  config: CompositionConfig,
+  component?: React.ComponentType<any>,
+): RegisteredComposition => {
+  const resolvedComponent = config.component ?? component;
+  if (!resolvedComponent) {
+    throw new Error(`Composition "${config.id}" has no component to render.`);
+  }
+
+  // durationInFrames takes priority; otherwise convert seconds using the config fps.
+  let durationInFrames = config.durationInFrames;
+  if (durationInFrames === undefined && config.durationInSeconds !== undefined) {
+    durationInFrames = Math.round(config.durationInSeconds * config.fps);
+  }
+  if (durationInFrames === undefined) {
+    throw new Error(
+      `Composition "${config.id}" needs either durationInFrames or durationInSeconds.`,
+    );
+  }
+
+  return {
+    id: config.id,
+    component: withTheme(withBackground(resolvedComponent)),
+    durationInFrames,
+    fps: config.fps,
+    width: config.width,
+    height: config.height,
+    schema: (config.schema ?? z.object({})).safeExtend({
+      theme: themeSettingSchema,
+      background: backgroundSchema,
+    }),
+    defaultProps: { theme: DEFAULT_THEME, background: DEFAULT_BACKGROUND, ...config.defaultProps },
+    calculateMetadata: getRenderDefaults,
+    loop: config.loop ?? false,
+  };
+};
+
+// =============================================================================
+// HELPER: RENDER DEFAULTS
+// =============================================================================
+// Points `npx remotion render` and the Studio render dialog at the right preset
+// (renderPresets.ts): a transparent background renders with alpha.
+const getRenderDefaults: CalculateMetadataFunction<Record<string, unknown>> = ({ props }) => {
+  const preset = RENDER_PRESETS[getDefaultPreset(props.background as Background | undefined)];
+  return {
+    defaultCodec: preset.codec,
+    defaultVideoImageFormat: preset.imageFormat,
+    defaultPixelFormat: preset.pixelFormat,
+    defaultProResProfile: 'proResProfile' in preset ? preset.proResProfile : undefined,
+  };
+};
+
+// =============================================================================
+// HELPER: ASPECT VARIANTS
+// =============================================================================
+// Every composition is also registered as a 9:16 "<id>-Vertical" and a 1:1
+// "<id>-Square" copy for TikTok, Reels and Shorts. Both keep the config's short
+// side, so a 3840x2160 design becomes 2160x3840 and 2160x2160. Props are shared
+// with the original; components size themselves from the frame (see layout.ts).
+const ASPECT_VARIANTS = [
+  { suffix: '-Vertical', getSize: (shortSide: number) => ({ width: shortSide, height: Math.round((shortSide * 16) / 9) }) },
+  { suffix: '-Square', getSize: (shortSide: number) => ({ width: shortSide, height: shortSide }) },
+];
+
+export const withAspectVariants = (composition: RegisteredComposition): RegisteredComposition[] => {
+  const shortSide = Math.min(composition.width, composition.height);
+  return [
+    composition,
+    ...ASPECT_VARIANTS.map(({ suffix, getSize }) => ({
+      ...composition,
+      id: `${composition.id}${suffix}`,
+      ...getSize(shortSide),
+    })),
+  ];
+};
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+export const compositions: RegisteredComposition[] = [
+  resolveComposition(neonEKGConfig, NeonEKG),
+  resolveComposition(fallingHeartsConfig),
+  resolveComposition(neonLiveConfig),
+  resolveComposition(neonRecConfig),
+  resolveComposition(auroraConfig, AuroraMeshGradient),
+  resolveComposition(newsConfig, BreakingNews),
+  resolveComposition(speedDemonConfig, SpeedDemonSpinner),
+  resolveComposition(errorCrossConfig, ErrorCross),
+  resolveComposition(cyberpunkRingConfig, CyberpunkDataRing),
+  resolveComposition(neonGrowthConfig, NeonGrowth),
+  resolveComposition(neonEqualizerConfig),
+  resolveComposition(neonYearLoadConfig, NeonYearLoad),
+  resolveComposition(reededGlassGoldConfig, ReededGlassGold),
+  resolveComposition(streamGlitchConfig, StreamGlitch),
+  resolveComposition(glowingLightsConfig, GlowingLights),
+  resolveComposition(neonCircleConfig, NeonCircleFrame),
+  resolveComposition(cleanProgressConfig, CleanProgressBar),
+  resolveComposition(gyroscopeConfig, GyroscopeV2),
+  resolveComposition(stringLightsConfig, GlowingStringLights),
+  resolveComposition(saberCountdownConfig, NeonSaberCountdown),
+  resolveComposition(particleFieldConfig, ParticleField),
+  resolveComposition(floatingSliderConfig, FloatingSlider),
+  resolveComposition(radioWavesConfig, NeonRadioWaves),
+  resolveComposition(reededGlassPinkConfig, ReededGlassPink),
+  resolveComposition(segmentedCountdownConfig, SegmentedCountdown),
+  resolveComposition(shapeShifterConfig, ShapeShifter),
+  resolveComposition(dualNeonChaseConfig, DualNeonChase),
+  resolveComposition(streamFrameConfig, StreamFrame),
+  resolveComposition(successCheckmarkConfig, SuccessCheckmark),
+  resolveComposition(zenProgressConfig, ZenProgressBar),
+].flatMap(withAspectVariants);
+
+// Remotion refuses duplicate ids, and getComposition() would quietly pick the
+// first one, so catch a copied config here.
+compositions.forEach(({ id }, index) => {
+  if (compositions.findIndex((c) => c.id === id) !== index) {
+    throw new Error(`Composition id "${id}" is registered twice. Give each composition its own id.`);
+  }
+});
+
+export const getComposition = (id: string): RegisteredComposition => {
+  const composition = compositions.find((c) => c.id === id);
+  if (!composition) {
+    const known = compositions.map((c) => c.id).join(', ');
+    throw new Error(`Unknown composition "${id}". Available: ${known}`);
+  }
+  return composition;
+};
+
+// =============================================================================
+// HELPER: VALIDATE PROPS
+// =============================================================================
+// Merges a (possibly partial) prop set over the defaults and checks it against
+// the composition's schema. The thrown error lists every invalid field.
+export const validateCompositionProps = (
+  id: string,
+  props: Record<string, unknown>,
+): Record<string, unknown> => {
+  const composition = getComposition(id);
+  const result = composition.schema.safeParse({ ...composition.defaultProps, ...props });
+  if (!result.success) {
+    throw new Error(`Invalid props for "${id}":\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+};
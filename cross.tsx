@@ -6,24 +6,36 @@ import {
   spring,
   interpolate,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const errorCrossSchema = z.object({
+  accentColor: zColor().optional(), // Defaults to the theme's accent color
+  strokeWidth: z.number().positive(),
+  iconSize: z.number().positive(),
+});
+
 export const compositionConfig = {
   id: 'ErrorCross',
   durationInFrames: 120, // 4 seconds
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: errorCrossSchema,
   defaultProps: {
-    color: '#FF0000', // Bright Neon Red
     strokeWidth: 30,
     iconSize: 800, // Large size for 4K center
+    theme: { preset: 'neon', palette: { accent: '#FF0000' } }, // Bright neon red
   },
 };
 
-type Props = typeof compositionConfig.defaultProps;
+type Props = z.infer<typeof errorCrossSchema>;
 
 // =============================================================================
 // ANIMATION PHYSICS CONFIG
@@ -37,9 +49,13 @@ const springConfig = {
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
-const ErrorCross: React.FC<Props> = ({ color, strokeWidth, iconSize }) => {
+const ErrorCross: React.FC<Props> = ({ accentColor, strokeWidth, iconSize }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const color = accentColor ?? palette.accent;
 
   // --- GEOMETRY CALCULATIONS ---
   const center = iconSize / 2;
@@ -85,7 +101,7 @@ const ErrorCross: React.FC<Props> = ({ color, strokeWidth, iconSize }) => {
   
   // Physics parameters for the "locked door" feel:
   const shakeFrequency = 0.9; // High frequency = fast vibration
-  const shakeAmplitude = 60;  // Max pixels to move left/right
+  const shakeAmplitude = 60 * scale; // Max pixels to move left/right
   const shakeDecayRate = 0.18; // Higher = stops faster
 
   // Formula: Sine Wave * Exponential Decay
@@ -104,22 +120,23 @@ const ErrorCross: React.FC<Props> = ({ color, strokeWidth, iconSize }) => {
     strokeLinecap: 'round' as const,
     strokeLinejoin: 'round' as const,
     // Intense Neon Glow Effect (Double drop-shadow for extra bloom)
-    filter: `drop-shadow(0 0 30px ${color}) drop-shadow(0 0 10px ${color})`,
+    filter: `drop-shadow(0 0 ${30 * glowStrength}px ${color}) drop-shadow(0 0 ${10 * glowStrength}px ${color})`,
   };
 
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#000000', // Deep black background
+        backgroundColor: background.color,
         display: 'flex',
         justifyContent: 'center',
         alignItems: 'center',
       }}
     >
       {/* SVG Container - The whole container shakes horizontally */}
+      {/* Drawn in 4K design pixels; the viewBox scales it to the frame */}
       <svg
-        width={iconSize}
-        height={iconSize}
+        width={iconSize * scale}
+        height={iconSize * scale}
         viewBox={`0 0 ${iconSize} ${iconSize}`}
         style={{ 
             overflow: 'visible',
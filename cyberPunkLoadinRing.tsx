@@ -5,23 +5,35 @@ import {
   useVideoConfig,
   interpolate,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const cyberpunkDataRingSchema = z.object({
+  primaryColor: zColor().optional(), // Defaults to the theme's primary color
+  iconSize: z.number().positive(),
+});
+
 export const compositionConfig = {
   id: 'CyberpunkDataRing',
   durationInFrames: 300, // 10 seconds for a seamless loop
+  loop: true,
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: cyberpunkDataRingSchema,
   defaultProps: {
-    primaryColor: '#00ff00', // Neon Green
     iconSize: 1200,
+    theme: { preset: 'neon', palette: { primary: '#00FF00' } }, // Neon green
   },
 };
 
-type Props = typeof compositionConfig.defaultProps;
+type Props = z.infer<typeof cyberpunkDataRingSchema>;
 
 // =============================================================================
 // HELPER: RING LAYER COMPONENT
@@ -45,6 +57,8 @@ const RingLayer: React.FC<RingLayerProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { durationInFrames } = useVideoConfig();
+  const { glowStrength } = useTheme();
+  const glow = glowStrength * useScale();
 
   // Calculate continuous rotation based on frame and speed.
   // Ensure it loops perfectly by ending on a multiple of 360.
@@ -61,7 +75,10 @@ const RingLayer: React.FC<RingLayerProps> = ({
   const circumference = 2 * Math.PI * radius;
 
   // Heavy neon glow filter
-  const glowFilter = useMemo(() => `drop-shadow(0 0 15px ${color}) drop-shadow(0 0 30px ${color})`, [color]);
+  const glowFilter = useMemo(
+    () => `drop-shadow(0 0 ${15 * glow}px ${color}) drop-shadow(0 0 ${30 * glow}px ${color})`,
+    [color, glow],
+  );
 
   return (
     <div
@@ -94,8 +111,13 @@ const RingLayer: React.FC<RingLayerProps> = ({
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
-const CyberpunkDataRing: React.FC<Props> = ({ primaryColor, iconSize }) => {
+const CyberpunkDataRing: React.FC<Props> = ({ primaryColor: primaryColorProp, iconSize: designIconSize }) => {
   const { width, height } = useVideoConfig();
+  const { palette } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const iconSize = designIconSize * scale;
+  const primaryColor = primaryColorProp ?? palette.primary;
 
   // Calculate ring radii and thicknesses relative to the container size
   const outerRadius = iconSize * 0.45;
@@ -106,7 +128,7 @@ const CyberpunkDataRing: React.FC<Props> = ({ primaryColor, iconSize }) => {
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#000000', // Deep black background
+        backgroundColor: background.color,
         display: 'flex',
         justifyContent: 'center',
         alignItems: 'center',
@@ -117,12 +139,12 @@ const CyberpunkDataRing: React.FC<Props> = ({ primaryColor, iconSize }) => {
       <AbsoluteFill
         style={{
           opacity: 0.15,
-          backgroundImage: 'repeating-radial-gradient(circle at 50% 50%, transparent 0%, transparent 2px, rgba(0, 255, 0, 0.1) 3px, transparent 4px)',
+          backgroundImage: `repeating-radial-gradient(circle at 50% 50%, transparent 0%, transparent ${2 * scale}px, ${mixColor(primaryColor, 0.1)} ${3 * scale}px, transparent ${4 * scale}px)`,
           backgroundSize: '100% 100%',
         }}
       />
       
-      {/* The 1200px Container for the Rings */}
+      {/* The iconSize Container for the Rings */}
       <div style={{ width: iconSize, height: iconSize, position: 'relative' }}>
         
         {/* OUTER RING: Slow, clockwise, longer segments */}
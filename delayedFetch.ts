@@ -0,0 +1,55 @@
+import { useEffect, useMemo, useState } from 'react';
+import { cancelRender, continueRender, delayRender, staticFile } from 'remotion';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+// Text of a file in public/.
+export const fetchPublicText = async (src: string): Promise<string> => {
+  const res = await fetch(staticFile(src));
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.text();
+};
+
+// =============================================================================
+// HOOK: LOAD A FILE BEFORE RENDERING
+// =============================================================================
+// Loads `src` with `load` and holds rendering until the result is in, so no
+// frame shows the fallback. Keyed on `src`: a new value (Studio props panel,
+// input props) takes a new delayRender handle and loads again, and a load that
+// is no longer wanted releases its handle. An empty `src` means "no file" and
+// returns null immediately. `what` names the file in messages ("audio").
+export const useDelayedFetch = <T>(
+  src: string,
+  what: string,
+  load: (src: string) => Promise<T>,
+): T | null => {
+  const [loaded, setLoaded] = useState<{ src: string; data: T } | null>(null);
+  // Taken while rendering, so the frame waits even before the effect runs
+  const handle = useMemo(() => (src ? delayRender(`Loading ${what} "${src}"`) : null), [src]);
+
+  useEffect(() => {
+    if (handle === null) return;
+    let done = false;
+
+    load(src)
+      .then((data) => {
+        if (done) return;
+        done = true;
+        setLoaded({ src, data });
+        continueRender(handle);
+      })
+      .catch((err: Error) => {
+        if (done) return;
+        cancelRender(new Error(`Could not load ${what} "${src}": ${err.message}`));
+      });
+
+    return () => {
+      if (!done) continueRender(handle);
+      done = true;
+    };
+  }, [src, handle]);
+
+  // Until the new file is in, don't hand out the previous one
+  return loaded !== null && loaded.src === src ? loaded.data : null;
+};
@@ -5,23 +5,36 @@ import {
   useVideoConfig,
   interpolate,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { fontFamilySchema, useFont } from './fonts';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const neonGrowthSchema = z.object({
+  primaryColor: zColor().optional(), // Defaults to the theme's primary color
+  baseScale: z.number().positive(),
+  fontFamily: fontFamilySchema.optional(), // Google Font or font file (see fonts.ts)
+});
+
 export const compositionConfig = {
   id: 'NeonGrowth',
   durationInSeconds: 10,
   fps: 30,
   width: 3840,
   height: 2160,
+  schema: neonGrowthSchema,
   defaultProps: {
-    neonColor: '#ffffffff', // Electric Green
     baseScale: 2.5,       // Size Multiplier
+    theme: { preset: 'neon', palette: { primary: '#FFFFFF' } }, // White arrows
   }
 };
 
-type GrowthProps = typeof compositionConfig.defaultProps;
+type GrowthProps = z.infer<typeof neonGrowthSchema>;
 
 // =============================================================================
 // SUB-COMPONENT: NEON BLOCK ARROW (With Optional Text)
@@ -30,12 +43,14 @@ const NeonBlockArrow = ({
     color, 
     scale, 
     blurIntensity, 
-    text 
+    text,
+    fontFamily
 }: { 
     color: string, 
     scale: number, 
     blurIntensity: number, 
-    text?: string 
+    text?: string,
+    fontFamily: string
 }) => {
     
     // Custom Path: Wider shaft to fit text
@@ -78,7 +93,7 @@ const NeonBlockArrow = ({
                     textAnchor="middle" // Horizontally Centered
                     fill={color}
                     fontSize="40"
-                    fontFamily="Arial, sans-serif"
+                    fontFamily={fontFamily}
                     fontWeight="900"
                     style={{
                         filter: `drop-shadow(0 0 ${blurIntensity/2}px ${color})`
@@ -94,14 +109,21 @@ const NeonBlockArrow = ({
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
-export const NeonGrowth: React.FC<GrowthProps> = ({ neonColor, baseScale }) => {
+export const NeonGrowth: React.FC<GrowthProps> = ({ primaryColor, baseScale, fontFamily: fontFamilyProp }) => {
   const frame = useCurrentFrame();
   const { durationInFrames } = useVideoConfig();
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const neonColor = primaryColor ?? palette.primary;
+  const { fontFamily } = useFont(fontFamilyProp, [900]);
+  // Arrow sizes are in 4K design pixels; baseScale multiplies on top
+  const layoutScale = useScale();
+  const arrowScale = baseScale * layoutScale;
 
   // --- 1. FLOATING ANIMATION (Bigger & Faster) ---
   const getFloat = (offset: number) => {
       // Increased speed (PI * 4) and amplitude (40px)
-      return Math.sin((frame + offset) / durationInFrames * Math.PI * 4) * 80;
+      return Math.sin((frame + offset) / durationInFrames * Math.PI * 4) * 80 * layoutScale;
   };
 
   const floatL = getFloat(0);
@@ -114,11 +136,11 @@ export const NeonGrowth: React.FC<GrowthProps> = ({ neonColor, baseScale }) => {
       Math.sin(frame / 10), 
       [-1, 1], 
       [10, 25] 
-  );
+  ) * glowStrength;
 
   return (
     <AbsoluteFill style={{ 
-        backgroundColor: '#000000', 
+        backgroundColor: background.color, 
         justifyContent: 'center', 
         alignItems: 'center' 
     }}>
@@ -127,28 +149,30 @@ export const NeonGrowth: React.FC<GrowthProps> = ({ neonColor, baseScale }) => {
           display: 'flex',
           alignItems: 'flex-end', // Align bottoms
           justifyContent: 'center',
-          gap: 20 * baseScale, // Adjusted gap
-          marginBottom: 100
+          gap: 20 * arrowScale, // Adjusted gap
+          marginBottom: 100 * layoutScale
       }}>
 
         {/* LEFT ARROW */}
         <div style={{ transform: `translateY(${floatL}px)` }}>
             <NeonBlockArrow 
                 color={neonColor} 
-                scale={baseScale} 
+                scale={arrowScale} 
                 blurIntensity={glowPulse} 
+                fontFamily={fontFamily}
             />
         </div>
 
         {/* CENTER ARROW (With Dollar) */}
         <div style={{ 
-            transform: `translateY(${floatC - 80}px)`, // Lifted higher
+            transform: `translateY(${floatC - 80 * layoutScale}px)`, // Lifted higher
             zIndex: 10 
         }}>
             <NeonBlockArrow 
                 color={neonColor} 
-                scale={baseScale * 1.2} // Center is slightly larger
+                scale={arrowScale * 1.2} // Center is slightly larger
                 blurIntensity={glowPulse} 
+                fontFamily={fontFamily}
                 text="$" // Passed directly into SVG
             />
         </div>
@@ -157,8 +181,9 @@ export const NeonGrowth: React.FC<GrowthProps> = ({ neonColor, baseScale }) => {
         <div style={{ transform: `translateY(${floatR}px)` }}>
             <NeonBlockArrow 
                 color={neonColor} 
-                scale={baseScale} 
+                scale={arrowScale} 
                 blurIntensity={glowPulse} 
+                fontFamily={fontFamily}
             />
         </div>
 
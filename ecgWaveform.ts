@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { seededNoise, seededRandom } from './seededNoise';
+
+// =============================================================================
+// TYPES & SCHEMAS
+// =============================================================================
+export const rhythmSchema = z.enum([
+  'sinus',
+  'tachycardia',
+  'bradycardia',
+  'arrhythmia',
+  'ventricularFibrillation',
+  'flatline',
+]);
+
+export type Rhythm = z.infer<typeof rhythmSchema>;
+
+// One step of a scripted timeline: from `atSeconds` on, the monitor shows
+// `rhythm`. `bpm` overrides the preset/base rate for this step only.
+export const rhythmStepSchema = z.object({
+  atSeconds: z.number().min(0),
+  rhythm: rhythmSchema,
+  bpm: z.number().positive().optional(),
+});
+
+export type RhythmStep = z.infer<typeof rhythmStepSchema>;
+
+// Amplitudes are in pixels, positive = up on screen.
+export interface EcgParams {
+  bpm: number;          // Base rate for sinus and arrhythmia
+  pAmplitude: number;
+  qrsAmplitude: number; // Height of the R spike; Q and S dips scale with it
+  tAmplitude: number;
+  seed: number;
+}
+
+// =============================================================================
+// RHYTHM PRESETS
+// =============================================================================
+// bpm: null means "use the base bpm". irregularity is the +/- fraction each
+// beat-to-beat interval may vary by.
+const RHYTHM_PRESETS: Record<Rhythm, { bpm: number | null; irregularity: number }> = {
+  sinus: { bpm: null, irregularity: 0.03 },
+  tachycardia: { bpm: 150, irregularity: 0.02 },
+  bradycardia: { bpm: 42, irregularity: 0.03 },
+  arrhythmia: { bpm: null, irregularity: 0.4 },
+  // No discrete beats: both are drawn directly by sampleEcg()
+  ventricularFibrillation: { bpm: null, irregularity: 0 },
+  flatline: { bpm: null, irregularity: 0 },
+};
+
+// =============================================================================
+// BEAT MORPHOLOGY
+// =============================================================================
+// Each wave is a Gaussian bump: [center (s after beat start), width (s), amplitude].
+// Timings are for a 60 bpm beat and shrink with faster rates (see `timeScale`).
+const gaussian = (t: number, center: number, width: number) =>
+  Math.exp(-((t - center) ** 2) / (2 * width * width));
+
+const beatShape = (t: number, rr: number, params: EcgParams): number => {
+  // QT shortens roughly with the square root of the RR interval (Bazett)
+  const timeScale = Math.min(1, Math.sqrt(rr));
+  const s = t / timeScale;
+  if (s < 0 || s > 0.8) return 0;
+
+  return (
+    params.pAmplitude * gaussian(s, 0.1, 0.025) +           // P
+    -0.15 * params.qrsAmplitude * gaussian(s, 0.2, 0.01) +  // Q
+    params.qrsAmplitude * gaussian(s, 0.23, 0.012) +        // R
+    -0.25 * params.qrsAmplitude * gaussian(s, 0.26, 0.012) + // S
+    params.tAmplitude * gaussian(s, 0.45, 0.05)             // T
+  );
+};
+
+// =============================================================================
+// SCHEDULE
+// =============================================================================
+interface Beat {
+  start: number; // seconds
+  rr: number;    // seconds until the next beat
+}
+
+export interface EcgSchedule {
+  steps: RhythmStep[];
+  beats: Beat[];
+  params: EcgParams;
+}
+
+// Lays out every beat for the whole clip up front so that any frame can be
+// sampled independently (and identically on every render worker).
+export const buildEcgSchedule = (
+  timeline: RhythmStep[],
+  durationInSeconds: number,
+  params: EcgParams,
+): EcgSchedule => {
+  const steps = [...timeline].sort((a, b) => a.atSeconds - b.atSeconds);
+  const beats: Beat[] = [];
+
+  steps.forEach((step, stepIndex) => {
+    const preset = RHYTHM_PRESETS[step.rhythm];
+    if (step.rhythm === 'ventricularFibrillation' || step.rhythm === 'flatline') return;
+
+    const end = steps[stepIndex + 1]?.atSeconds ?? durationInSeconds;
+    const bpm = step.bpm ?? preset.bpm ?? params.bpm;
+
+    for (let t = step.atSeconds, i = 0; t < end; i++) {
+      const jitter = (seededRandom(params.seed, 'rr', stepIndex, i) * 2 - 1) * preset.irregularity;
+      const rr = (60 / bpm) * (1 + jitter);
+      beats.push({ start: t, rr });
+      t += rr;
+    }
+  });
+
+  return { steps, beats, params };
+};
+
+// =============================================================================
+// SAMPLING
+// =============================================================================
+const stepAt = (steps: RhythmStep[], t: number): RhythmStep | undefined => {
+  let current: RhythmStep | undefined;
+  for (const step of steps) {
+    if (step.atSeconds > t) break;
+    current = step;
+  }
+  return current;
+};
+
+// Index of the last beat starting at or before t, or -1.
+const beatIndexAt = (beats: Beat[], t: number) => {
+  let lo = 0;
+  let hi = beats.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (beats[mid].start <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Signal value (pixels, positive = up) at time t in seconds.
+export const sampleEcg = (schedule: EcgSchedule, t: number): number => {
+  const { params, beats } = schedule;
+  const step = stepAt(schedule.steps, t);
+
+  // Tiny sensor noise on every rhythm so lines never look computer-perfect
+  const sensorNoise = seededNoise(params.seed, t * 30) * 2;
+
+  // Before the first step there is no signal yet
+  if (!step || step.rhythm === 'flatline') {
+    // A beat that started before the flatline still finishes drawing
+    const last = beatIndexAt(beats, t);
+    const tail = last >= 0 ? beatShape(t - beats[last].start, beats[last].rr, params) : 0;
+    return tail + sensorNoise;
+  }
+
+  if (step.rhythm === 'ventricularFibrillation') {
+    // Chaotic, irregular oscillation around 4-6 Hz with wandering amplitude
+    const envelope = 0.25 + 0.15 * (seededNoise(params.seed, t * 0.7, 1) + 1);
+    const phase = t * Math.PI * 2 * 5 + seededNoise(params.seed, t * 1.5, 2) * 3;
+    return params.qrsAmplitude * envelope * Math.sin(phase) + sensorNoise;
+  }
+
+  // Sum the current beat and the previous one, whose T wave may still be running
+  const index = beatIndexAt(beats, t);
+  let value = 0;
+  for (let i = Math.max(0, index - 1); i <= index; i++) {
+    value += beatShape(t - beats[i].start, beats[i].rr, params);
+  }
+  return value + sensorNoise;
+};
@@ -1,37 +1,24 @@
 import React, { useMemo } from 'react';
 import {
   AbsoluteFill,
+  Audio,
   useCurrentFrame,
   useVideoConfig,
   interpolate,
   interpolateColors,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { getMeterLevels, getSpectrumBands, resolveAudioSrc, useAudioTrack } from './audioAnalysis';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
 
-const NeonEqualizer: React.FC = () => {
-  const frame = useCurrentFrame();
-  const { width, height, durationInFrames } = useVideoConfig();
-
-  // --- Configuration ---
-  const BAR_COUNT = 30;
-  const SEGMENT_COUNT = 15;
-  const BAR_WIDTH = 60;
-  const BAR_GAP = 30;
-  const SEGMENT_HEIGHT = 40;
-  const SEGMENT_GAP = 10;
-  
-  // Colors
-  const COLOR_START = '#00FFFF'; // Cyan
-  const COLOR_END = '#AA00FF';   // Purple
+type EqualizerProps = z.infer<typeof neonEqualizerSchema>;
 
-  // Layout calculations
-  const totalBarWidth = BAR_WIDTH + BAR_GAP;
-  const totalWidth = BAR_COUNT * totalBarWidth - BAR_GAP;
-  const startX = (width - totalWidth) / 2;
-  const centerY = height / 2;
-  const maxBarHeight = SEGMENT_COUNT * (SEGMENT_HEIGHT + SEGMENT_GAP);
-
-  // --- Helper: Generate Noise/Beat ---
-  const getBarHeight = (index: number) => {
+// --- Fallback: Generate Noise/Beat (used when no audio track is given) ---
+const getSineLevels = (frame: number, durationInFrames: number, barCount: number) => {
+  return new Array(barCount).fill(0).map((_, index) => {
     // We use a normalized time t (0 to 2PI) for perfect looping over duration
     const t = (frame / durationInFrames) * Math.PI * 2;
     
@@ -52,17 +39,63 @@ const NeonEqualizer: React.FC = () => {
     // Map to 0.1 to 1.0 range (keep minimum height)
     // Using interpolate to clamp logic neatly
     return interpolate(raw, [-2, 2], [0.1, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-  };
+  });
+};
+
+const EqualizerView: React.FC<EqualizerProps & {
+  getLevels: (frame: number) => number[];
+}> = ({
+  getLevels,
+  barCount: BAR_COUNT,
+  segmentCount: SEGMENT_COUNT,
+  primaryColor: colorStart,
+  secondaryColor: colorEnd,
+  peakColor: peakColorProp,
+  decaySeconds,
+  peakHoldSeconds,
+}) => {
+  const frame = useCurrentFrame();
+  const { width, height, fps } = useVideoConfig();
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+
+  // Colors
+  const COLOR_START = colorStart ?? palette.primary;
+  const COLOR_END = colorEnd ?? palette.secondary;
+  const peakColor = peakColorProp ?? palette.text;
+
+  // --- Configuration ---
+  // Bars and segments shrink to fit when there are more of them
+  const BAR_PITCH = Math.min(90 * scale, (width * 0.8) / BAR_COUNT);
+  const BAR_WIDTH = BAR_PITCH * (2 / 3);
+  const BAR_GAP = BAR_PITCH - BAR_WIDTH;
+  const SEGMENT_PITCH = Math.min(50 * scale, (height * 0.35) / SEGMENT_COUNT);
+  const SEGMENT_HEIGHT = SEGMENT_PITCH * 0.8;
+  const SEGMENT_GAP = SEGMENT_PITCH - SEGMENT_HEIGHT;
+
+  // Layout calculations
+  const totalBarWidth = BAR_WIDTH + BAR_GAP;
+  const totalWidth = BAR_COUNT * totalBarWidth - BAR_GAP;
+  const startX = (width - totalWidth) / 2;
+  const centerY = height / 2;
+
+  // --- Meter ballistics: fast rise, smooth fall, peak caps ---
+  const { levels, peaks } = getMeterLevels(getLevels, frame, {
+    decayFrames: Math.round(decaySeconds * fps),
+    peakHoldFrames: Math.round(peakHoldSeconds * fps),
+    peakFallFrames: Math.round(fps),
+  });
 
   // --- Render Single Bar ---
   const renderBar = (index: number, opacityMultiplier: number = 1) => {
-    const intensity = getBarHeight(index);
-    const activeSegments = Math.ceil(intensity * SEGMENT_COUNT);
+    const activeSegments = Math.ceil(levels[index] * SEGMENT_COUNT);
+    const peakSegment = Math.max(activeSegments, Math.ceil(peaks[index] * SEGMENT_COUNT)) - 1;
     
     // Calculate color for this specific bar based on horizontal position
     const barColor = interpolateColors(
       index,
-      [0, BAR_COUNT - 1],
+      [0, Math.max(1, BAR_COUNT - 1)],
       [COLOR_START, COLOR_END]
     );
 
@@ -86,13 +119,28 @@ const NeonEqualizer: React.FC = () => {
           width={BAR_WIDTH}
           height={SEGMENT_HEIGHT}
           fill={barColor}
-          rx={4}
-          ry={4}
+          rx={4 * scale}
+          ry={4 * scale}
           style={{ opacity: segmentOpacity * opacityMultiplier }}
         />
       );
     }
 
+    // Peak cap: a thin bright bar resting on top of the highest recent segment
+    if (peakSegment >= 0) {
+      segments.push(
+        <rect
+          key={`peak-${index}`}
+          x={0}
+          y={-(peakSegment * (SEGMENT_HEIGHT + SEGMENT_GAP)) - SEGMENT_HEIGHT - SEGMENT_GAP}
+          width={BAR_WIDTH}
+          height={SEGMENT_GAP}
+          fill={peakColor}
+          style={{ opacity: opacityMultiplier }}
+        />
+      );
+    }
+
     return (
       <g 
         key={`bar-${index}`} 
@@ -106,15 +154,15 @@ const NeonEqualizer: React.FC = () => {
   // Generate arrays
   const bars = useMemo(() => {
     return new Array(BAR_COUNT).fill(0).map((_, i) => renderBar(i));
-  }, [frame]); // Re-calculate every frame for animation
+  }, [levels, peaks]); // Re-calculate every frame for animation
 
   const reflectionBars = useMemo(() => {
     return new Array(BAR_COUNT).fill(0).map((_, i) => renderBar(i, 0.3));
-  }, [frame]);
+  }, [levels, peaks]);
 
   // --- CSS Styles ---
   const containerStyle: React.CSSProperties = {
-    backgroundColor: '#000000',
+    backgroundColor: background.color,
     display: 'flex',
     justifyContent: 'center',
     alignItems: 'center',
@@ -135,7 +183,7 @@ const NeonEqualizer: React.FC = () => {
         <defs>
           <filter id={filterId} x="-50%" y="-50%" width="200%" height="200%">
             {/* Blur for the glow */}
-            <feGaussianBlur in="SourceGraphic" stdDeviation="8" result="blur" />
+            <feGaussianBlur in="SourceGraphic" stdDeviation={8 * glowStrength * scale} result="blur" />
             <feColorMatrix
               in="blur"
               type="matrix"
@@ -158,7 +206,7 @@ const NeonEqualizer: React.FC = () => {
           {/* 2. Reflection (Flipped Vertically) */}
           <g transform={`translate(0, ${centerY * 2}) scale(1, -1) translate(0, -${centerY * 2})`}>
              {/* Offset Y slightly to create gap between floor and object */}
-            <g transform={`translate(0, 20)`}>
+            <g transform={`translate(0, ${20 * scale})`}>
               {reflectionBars}
             </g>
           </g>
@@ -167,11 +215,11 @@ const NeonEqualizer: React.FC = () => {
         {/* Floor Line for visual grounding */}
         <line 
           x1={startX} 
-          y1={centerY + 10} 
+          y1={centerY + 10 * scale} 
           x2={startX + totalWidth} 
-          y2={centerY + 10} 
+          y2={centerY + 10 * scale} 
           stroke="rgba(255,255,255,0.2)" 
-          strokeWidth="2"
+          strokeWidth={2 * scale}
         />
 
       </svg>
@@ -179,6 +227,52 @@ const NeonEqualizer: React.FC = () => {
   );
 };
 
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+const NeonEqualizer: React.FC<EqualizerProps> = (props) => {
+  const { fps, durationInFrames } = useVideoConfig();
+  const audioData = useAudioTrack(props.audioSrc);
+
+  const getLevels = (frame: number) => {
+    if (props.audioSrc === '') {
+      // No track: loop the sine animation (negative frames wrap around the loop)
+      return getSineLevels(frame, durationInFrames, props.barCount);
+    }
+    if (!audioData || frame < 0) return new Array(props.barCount).fill(0);
+    return getSpectrumBands(audioData, frame, fps, {
+      bandCount: props.barCount,
+      minFrequency: props.minFrequency,
+      maxFrequency: props.maxFrequency,
+    });
+  };
+
+  return (
+    <>
+      {props.audioSrc !== '' && props.playAudio && <Audio src={resolveAudioSrc(props.audioSrc)} />}
+      <EqualizerView {...props} getLevels={getLevels} />
+    </>
+  );
+};
+
+export const neonEqualizerSchema = z.object({
+  audioSrc: z.string(),             // File in public/ or URL; '' = sine animation
+  playAudio: z.boolean(),           // Include the track in the render's sound
+  barCount: z.number().int().min(1),
+  segmentCount: z.number().int().min(1),
+  // Colors default to the active theme; set one to override it here only
+  primaryColor: zColor().optional(),   // Bottom of the bars
+  secondaryColor: zColor().optional(), // Top of the bars
+  peakColor: zColor().optional(),
+  minFrequency: z.number().positive(), // Hz, lowest band
+  maxFrequency: z.number().positive(), // Hz, highest band
+  decaySeconds: z.number().min(0),  // Time for a bar to fall from full to empty
+  peakHoldSeconds: z.number().min(0),
+}).refine((props) => props.minFrequency < props.maxFrequency, {
+  message: 'minFrequency must be below maxFrequency',
+  path: ['minFrequency'],
+});
+
 export const compositionConfig = {
   id: 'NeonEqualizer',
   component: NeonEqualizer,
@@ -186,7 +280,19 @@ export const compositionConfig = {
   height: 2160,
   fps: 30,
   durationInSeconds: 10,
-  defaultProps: {},
+  loop: true, // With the built-in sine animation; a track plays through once
+  schema: neonEqualizerSchema,
+  defaultProps: {
+    audioSrc: '',
+    playAudio: true,
+    barCount: 30,
+    segmentCount: 15,
+    minFrequency: 40,
+    maxFrequency: 16000,
+    decaySeconds: 0.4,
+    peakHoldSeconds: 0.5,
+    theme: { preset: 'neon', palette: { secondary: '#AA00FF' } }, // Cyan to purple bars
+  },
 };
 
-export default NeonEqualizer;
+export default NeonEqualizer;
\ No newline at end of file
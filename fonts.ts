@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useState } from 'react';
+import { cancelRender, continueRender, delayRender, staticFile } from 'remotion';
+import { z } from 'zod';
+import { loadFont as loadFontFile } from '@remotion/fonts';
+import * as Anton from '@remotion/google-fonts/Anton';
+import * as Audiowide from '@remotion/google-fonts/Audiowide';
+import * as BebasNeue from '@remotion/google-fonts/BebasNeue';
+import * as DancingScript from '@remotion/google-fonts/DancingScript';
+import * as Exo2 from '@remotion/google-fonts/Exo2';
+import * as Inter from '@remotion/google-fonts/Inter';
+import * as Montserrat from '@remotion/google-fonts/Montserrat';
+import * as Orbitron from '@remotion/google-fonts/Orbitron';
+import * as Oswald from '@remotion/google-fonts/Oswald';
+import * as Poppins from '@remotion/google-fonts/Poppins';
+import * as PressStart2P from '@remotion/google-fonts/PressStart2P';
+import * as Rajdhani from '@remotion/google-fonts/Rajdhani';
+import * as Roboto from '@remotion/google-fonts/Roboto';
+import * as RobotoMono from '@remotion/google-fonts/RobotoMono';
+import * as RussoOne from '@remotion/google-fonts/RussoOne';
+import { useTheme } from './theme';
+
+// =============================================================================
+// FONT SOURCES
+// =============================================================================
+// A component's `fontFamily` prop names either
+// - a Google Font from the list below ("Oswald"), or
+// - a font file in public/ or at a URL ("fonts/Brand.woff2").
+// Without the prop, the theme's CSS stack is used and the Google Font it starts
+// with is loaded (every preset in theme.tsx leads with one). Either way the
+// font is in before any frame renders, so output never depends on the fonts
+// installed on the render machine.
+interface GoogleFontModule {
+  getInfo(): { fonts: Record<string, Record<string, unknown>> };
+  loadFont(
+    style?: 'normal',
+    options?: { weights?: string[]; subsets?: string[] },
+  ): { fontFamily: string; waitUntilDone: () => Promise<void> };
+}
+
+const GOOGLE_FONTS = {
+  Anton,
+  Audiowide,
+  'Bebas Neue': BebasNeue,
+  'Dancing Script': DancingScript,
+  'Exo 2': Exo2,
+  Inter,
+  Montserrat,
+  Orbitron,
+  Oswald,
+  Poppins,
+  'Press Start 2P': PressStart2P,
+  Rajdhani,
+  Roboto,
+  'Roboto Mono': RobotoMono,
+  'Russo One': RussoOne,
+};
+
+export type GoogleFontName = keyof typeof GOOGLE_FONTS;
+
+const FONT_FILE = /\.(woff2?|ttf|otf)$/i;
+
+const isGoogleFontName = (value: string): value is GoogleFontName => {
+  return Object.prototype.hasOwnProperty.call(GOOGLE_FONTS, value);
+};
+
+const describeFontOptions = () => {
+  const names = Object.keys(GOOGLE_FONTS).join(', ');
+  return `Use a Google Font (${names}) or a font file in public/ or at a URL (.woff2, .woff, .ttf, .otf).`;
+};
+
+export const fontFamilySchema = z.string().min(1).refine(
+  (value) => isGoogleFontName(value) || FONT_FILE.test(value),
+  { message: `Unknown font. ${describeFontOptions()}` },
+);
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+// Not every font has every weight (Anton is 400 only), so each requested weight
+// is swapped for the closest one the font has. Only the Latin subset is fetched.
+const getClosestWeights = (font: GoogleFontModule, weights: number[]): string[] => {
+  const available = Object.keys(font.getInfo().fonts.normal).map(Number);
+  const closest = weights.map((weight) => available.reduce((best, candidate) =>
+    Math.abs(candidate - weight) < Math.abs(best - weight) ? candidate : best,
+  ));
+  return [...new Set(closest)].map(String);
+};
+
+// The first Google Font named in a CSS stack like '"Arial Black", Inter, sans-serif'.
+const findGoogleFontInStack = (stack: string): GoogleFontName | null => {
+  const families = stack.split(',').map((family) => family.trim().replace(/^["']|["']$/g, ''));
+  return families.find(isGoogleFontName) ?? null;
+};
+
+interface LoadedFont {
+  family: string; // CSS family name the font was registered under
+  waitUntilDone: () => Promise<void>;
+}
+
+// Starts loading `value` (a fontFamily prop value). Throws for anything that
+// is neither a listed Google Font nor a font file.
+export const loadFontFamily = (value: string, weights: number[]): LoadedFont => {
+  if (isGoogleFontName(value)) {
+    const font: GoogleFontModule = GOOGLE_FONTS[value];
+    const { fontFamily, waitUntilDone } = font.loadFont('normal', {
+      weights: getClosestWeights(font, weights),
+      subsets: ['latin'],
+    });
+    return { family: fontFamily, waitUntilDone };
+  }
+
+  if (FONT_FILE.test(value)) {
+    // One file covers every weight; the family is named after the file
+    const family = value.split('/').pop()!.replace(FONT_FILE, '');
+    const url = /^https?:\/\//.test(value) ? value : staticFile(value);
+    const done = loadFontFile({ family, url, weight: '100 900' });
+    return { family, waitUntilDone: () => done };
+  }
+
+  throw new Error(`Unknown font "${value}". ${describeFontOptions()}`);
+};
+
+// =============================================================================
+// HOOK
+// =============================================================================
+// Resolves a component's `fontFamily` prop (or the theme font when it is unset)
+// to a CSS font-family and holds the render until that font is loaded.
+// `ready` turns true once it is: measureText() and fitText() cache by text and
+// style, so measuring any earlier would keep the fallback's widths for the
+// whole render. Keyed like useDelayedFetch: a new font (Studio props panel,
+// input props) takes a new delayRender handle, and one that is no longer
+// wanted releases its handle.
+export const useFont = (
+  fontFamily: string | undefined,
+  weights: number[],
+): { fontFamily: string; ready: boolean } => {
+  const theme = useTheme();
+  const source = fontFamily ?? findGoogleFontInStack(theme.fontFamily);
+  const key = source ? `${source}:${weights.join(',')}` : '';
+  // The key covers both arguments
+  const font = useMemo(() => (source ? loadFontFamily(source, weights) : null), [key]);
+  const [readyKey, setReadyKey] = useState<string | null>(null);
+  // Taken while rendering, so the frame waits even before the effect runs
+  const handle = useMemo(() => delayRender(`Loading font "${source ?? theme.fontFamily}"`), [key]);
+
+  useEffect(() => {
+    let done = false;
+    (font ? font.waitUntilDone() : Promise.resolve())
+      .then(() => {
+        if (done) return;
+        done = true;
+        setReadyKey(key);
+        continueRender(handle);
+      })
+      .catch((err: Error) => {
+        if (done) return;
+        cancelRender(new Error(`Could not load font "${source}": ${err.message}`));
+      });
+
+    return () => {
+      if (!done) continueRender(handle);
+      done = true;
+    };
+  }, [font, key, handle]);
+
+  // A prop font goes in front of the theme stack, which stays as the fallback
+  return {
+    fontFamily: font && fontFamily ? `"${font.family}", ${theme.fontFamily}` : theme.fontFamily,
+    ready: readyKey === key,
+  };
+};
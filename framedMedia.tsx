@@ -0,0 +1,61 @@
+import React from 'react';
+import { Img, OffthreadVideo, staticFile } from 'remotion';
+import { z } from 'zod';
+import type { Box } from './neonBorder';
+
+// =============================================================================
+// TYPES & SCHEMAS
+// =============================================================================
+// A video or image shown inside a frame component. `src` is a file in public/
+// or a URL; an empty string means "no media". Videos play from the first frame
+// of the composition, so they stay in sync with the frame's animation.
+const VIDEO_FILE = /\.(mp4|webm|mov|mkv|m4v)$/i;
+const IMAGE_FILE = /\.(png|jpe?g|gif|webp|avif|svg)$/i;
+
+// Query strings and fragments don't count towards the extension
+const stripQuery = (src: string) => src.replace(/[?#].*$/, '');
+
+export const isImageSrc = (src: string) => IMAGE_FILE.test(stripQuery(src));
+
+export const mediaSrcSchema = z.string().refine(
+  (src) => src === '' || VIDEO_FILE.test(stripQuery(src)) || isImageSrc(src),
+  { message: 'Unsupported media. Use a video (.mp4, .webm, .mov, .mkv, .m4v) or an image (.png, .jpg, .gif, .webp, .avif, .svg)' },
+);
+
+// 'cover' fills the frame and crops; 'contain' shows everything and may leave gaps.
+export const mediaFitSchema = z.enum(['cover', 'contain']);
+
+export type MediaFit = z.infer<typeof mediaFitSchema>;
+
+export const resolveMediaSrc = (src: string) => (/^https?:\/\//.test(src) ? src : staticFile(src));
+
+// =============================================================================
+// SUB-COMPONENT: FRAMED MEDIA
+// =============================================================================
+// Fits `src` into `box` (px) and clips it with `clipPath`, a CSS clip-path in
+// the box's own coordinates (e.g. 'circle(50%)' or 'path("M 0 0 ...")').
+export const FramedMedia: React.FC<{
+  src: string;
+  fit: MediaFit;
+  box: Box;
+  clipPath: string;
+}> = ({ src, fit, box, clipPath }) => {
+  const mediaStyle: React.CSSProperties = { width: '100%', height: '100%', objectFit: fit };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: box.x,
+        top: box.y,
+        width: box.width,
+        height: box.height,
+        clipPath,
+      }}
+    >
+      {VIDEO_FILE.test(stripQuery(src))
+        ? <OffthreadVideo src={resolveMediaSrc(src)} style={mediaStyle} />
+        : <Img src={resolveMediaSrc(src)} style={mediaStyle} />}
+    </div>
+  );
+};
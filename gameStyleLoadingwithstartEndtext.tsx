@@ -4,29 +4,52 @@ import {
   useCurrentFrame,
   useVideoConfig,
   interpolate,
-  random,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { fontFamilySchema, useFont } from './fonts';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { seededRandom, seedSchema } from './seededNoise';
+import { progressTrackSchema, sampleProgressTrack, useProgressTrack } from './progressTrack';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const neonYearLoadSchema = z.object({
+  yearStart: z.string(),
+  yearEnd: z.string(),
+  // Colors default to the active theme; set one to override it here only
+  primaryColor: zColor().optional(),   // Glow and bar border
+  secondaryColor: zColor().optional(), // Text and bar fill
+  glowIntensity: z.number().min(0),
+  fontFamily: fontFamilySchema.optional(), // Google Font or font file (see fonts.ts)
+  // Scripted progress (see progressTrack.ts); without it the bar fills evenly
+  progressTrack: progressTrackSchema.optional(),
+  progressTrackSrc: z.string(), // Optional JSON file in public/ that replaces progressTrack
+  seed: seedSchema,
+});
+
 export const compositionConfig = {
   id: 'NeonYearLoad',
   durationInSeconds: 5, // FIXED: Now uses Seconds
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: neonYearLoadSchema,
   defaultProps: {
     yearStart: 'DECEMBER',
     yearEnd: 'JANUARY',
-    primaryColor: '#c123ffff', // colour
-    secondaryColor: '#f9daffff', // White
     glowIntensity: 20,
-    gameFont: '"Press Start 2P", "Courier New", monospace', // FIXED: Game Font Stack
+    fontFamily: 'Press Start 2P', // Pixel game font
+    progressTrackSrc: '',
+    seed: 0,
+    theme: { preset: 'neon', palette: { primary: '#C123FF', secondary: '#F9DAFF' } }, // Purple glow, pale pink text
   },
 };
 
-type NeonProps = typeof compositionConfig.defaultProps;
+type NeonProps = z.infer<typeof neonYearLoadSchema>;
 
 // =============================================================================
 // MAIN COMPONENT
@@ -34,13 +57,17 @@ type NeonProps = typeof compositionConfig.defaultProps;
 export const NeonYearLoad: React.FC<NeonProps> = (props) => {
   const frame = useCurrentFrame();
   const { fps, durationInFrames } = useVideoConfig(); // durationInFrames is auto-calculated by Remotion based on Config
+  const track = useProgressTrack(props.progressTrack, props.progressTrackSrc);
 
   // 1. TIMING & PROGRESS
   // We want the bar to fill up to 100% by the end of the video
   // We subtract 20 frames at the end to let the "100%" sit for a moment
-  const progress = interpolate(frame, [0, durationInFrames - 20], [0, 100], {
-    extrapolateRight: 'clamp',
-  });
+  // (a progress track, when given, takes over instead)
+  const progress = track
+    ? sampleProgressTrack(track, frame / fps)
+    : interpolate(frame, [0, durationInFrames - 20], [0, 100], {
+        extrapolateRight: 'clamp',
+      });
   
   // Percentage display (integer)
   const percentDisplay = Math.floor(progress);
@@ -53,10 +80,19 @@ export const NeonYearLoad: React.FC<NeonProps> = (props) => {
   const fillWidth = `${progress}%`;
 
   // Neon Flicker (Random subtle changes in glow intensity)
-  const flicker = random(frame) * 0.2 + 0.9; // 0.9 to 1.1 multiplier
+  const flicker = seededRandom(props.seed, frame) * 0.2 + 0.9; // 0.9 to 1.1 multiplier
+
+  // 3. THEME (color props override it)
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const scale = useScale(); // Sizes below are 4K design pixels
+  const glow = glowStrength * scale;
+  const primaryColor = props.primaryColor ?? palette.primary;
+  const secondaryColor = props.secondaryColor ?? palette.secondary;
+  const { fontFamily } = useFont(props.fontFamily, [300, 400, 700]);
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#000000', alignItems: 'center', justifyContent: 'center' }}>
+    <AbsoluteFill style={{ backgroundColor: background.color, alignItems: 'center', justifyContent: 'center' }}>
       
       {/* BACKGROUND GLOW SPOT (Ambiance) */}
       <div 
@@ -64,26 +100,26 @@ export const NeonYearLoad: React.FC<NeonProps> = (props) => {
             position: 'absolute',
             width: '60%',
             height: '20%',
-            background: props.primaryColor,
-            filter: 'blur(300px)',
+            background: primaryColor,
+            filter: `blur(${300 * scale}px)`,
             opacity: 0.15,
             zIndex: 0,
         }} 
       />
 
       {/* MAIN CONTAINER (Centered) */}
-      <div style={{ position: 'relative', width: 2000, zIndex: 10 }}>
+      <div style={{ position: 'relative', width: 2000 * scale, zIndex: 10 }}>
 
         {/* TOP LABELS */}
-        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 20, alignItems: 'flex-end' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 20 * scale, alignItems: 'flex-end' }}>
             {/* "LOADING" - Game Font */}
             <h2 style={{
                 margin: 0,
-                color: props.secondaryColor,
-                fontFamily: props.gameFont,
-                fontSize: 40, // Slightly smaller for pixel fonts
-                letterSpacing: 4,
-                textShadow: `0 0 10px ${props.primaryColor}`,
+                color: secondaryColor,
+                fontFamily,
+                fontSize: 40 * scale, // Slightly smaller for pixel fonts
+                letterSpacing: 4 * scale,
+                textShadow: `0 0 ${10 * glow}px ${primaryColor}`,
             }}>
                 LOADING
             </h2>
@@ -91,11 +127,11 @@ export const NeonYearLoad: React.FC<NeonProps> = (props) => {
             {/* PERCENTAGE */}
             <h2 style={{
                 margin: 0,
-                color: props.secondaryColor,
-                fontFamily: props.gameFont,
-                fontSize: 50,
+                color: secondaryColor,
+                fontFamily,
+                fontSize: 50 * scale,
                 fontWeight: 'bold',
-                textShadow: `0 0 20px ${props.primaryColor}`,
+                textShadow: `0 0 ${20 * glow}px ${primaryColor}`,
             }}>
                 {percentDisplay}%
             </h2>
@@ -105,11 +141,11 @@ export const NeonYearLoad: React.FC<NeonProps> = (props) => {
         <div style={{
             position: 'relative',
             width: '100%',
-            height: 100,
-            border: `6px solid ${props.primaryColor}`,
-            borderRadius: 10, // Sharper corners for Game UI look
-            boxShadow: `0 0 ${props.glowIntensity * flicker}px ${props.primaryColor}, inset 0 0 ${10 * flicker}px ${props.primaryColor}`,
-            padding: 8, // Gap between border and fill
+            height: 100 * scale,
+            border: `${6 * scale}px solid ${primaryColor}`,
+            borderRadius: 10 * scale, // Sharper corners for Game UI look
+            boxShadow: `0 0 ${props.glowIntensity * glow * flicker}px ${primaryColor}, inset 0 0 ${10 * scale * flicker}px ${primaryColor}`,
+            padding: 8 * scale, // Gap between border and fill
             display: 'flex',
             alignItems: 'center',
         }}>
@@ -117,23 +153,23 @@ export const NeonYearLoad: React.FC<NeonProps> = (props) => {
             <div style={{
                 height: '100%',
                 width: fillWidth,
-                backgroundColor: props.secondaryColor,
-                borderRadius: 4, // Sharp corners
-                boxShadow: `0 0 40px ${props.secondaryColor}, 0 0 80px ${props.primaryColor}`, // Bright white core, cyan glow
+                backgroundColor: secondaryColor,
+                borderRadius: 4 * scale, // Sharp corners
+                boxShadow: `0 0 ${40 * scale}px ${secondaryColor}, 0 0 ${80 * glow}px ${primaryColor}`, // Bright white core, cyan glow
                 transition: 'width 0.1s linear', // Smoothen frame jumps slightly
             }} />
         </div>
 
         {/* BOTTOM LABELS */}
-        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: 30, alignItems: 'center' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: 30 * scale, alignItems: 'center' }}>
             {/* 2025 */}
             <h1 style={{
                 margin: 0,
-                color: props.secondaryColor,
-                fontFamily: props.gameFont,
-                fontSize: 60,
+                color: secondaryColor,
+                fontFamily,
+                fontSize: 60 * scale,
                 fontWeight: 300,
-                textShadow: `0 0 15px ${props.primaryColor}`,
+                textShadow: `0 0 ${15 * glow}px ${primaryColor}`,
             }}>
                 {props.yearStart}
             </h1>
@@ -141,12 +177,12 @@ export const NeonYearLoad: React.FC<NeonProps> = (props) => {
             {/* TO */}
             <h3 style={{
                 margin: 0,
-                color: props.primaryColor, // Make "TO" Cyan for contrast
-                fontFamily: props.gameFont,
-                fontSize: 30,
+                color: primaryColor, // Make "TO" Cyan for contrast
+                fontFamily,
+                fontSize: 30 * scale,
                 opacity: pulseOpacity,
-                letterSpacing: 2,
-                textShadow: `0 0 10px ${props.primaryColor}`,
+                letterSpacing: 2 * scale,
+                textShadow: `0 0 ${10 * glow}px ${primaryColor}`,
             }}>
                 &gt;&gt;
             </h3>
@@ -154,11 +190,11 @@ export const NeonYearLoad: React.FC<NeonProps> = (props) => {
             {/* 2026 */}
             <h1 style={{
                 margin: 0,
-                color: props.secondaryColor,
-                fontFamily: props.gameFont,
-                fontSize: 70, // Slightly bigger
+                color: secondaryColor,
+                fontFamily,
+                fontSize: 70 * scale, // Slightly bigger
                 fontWeight: 700, 
-                textShadow: `0 0 30px ${props.primaryColor}, 0 0 60px ${props.primaryColor}`,
+                textShadow: `0 0 ${30 * glow}px ${primaryColor}, 0 0 ${60 * glow}px ${primaryColor}`,
             }}>
                 {props.yearEnd}
             </h1>
@@ -170,7 +206,7 @@ export const NeonYearLoad: React.FC<NeonProps> = (props) => {
       <AbsoluteFill 
         style={{
             backgroundImage: 'linear-gradient(rgba(18, 16, 16, 0) 50%, rgba(0, 0, 0, 0.25) 50%), linear-gradient(90deg, rgba(255, 0, 0, 0.06), rgba(0, 255, 0, 0.02), rgba(0, 0, 255, 0.06))',
-            backgroundSize: '100% 4px, 6px 100%',
+            backgroundSize: `100% ${4 * scale}px, ${6 * scale}px 100%`,
             pointerEvents: 'none',
             zIndex: 99,
             mixBlendMode: 'overlay',
@@ -3,49 +3,90 @@ import {
   AbsoluteFill,
   useCurrentFrame,
   useVideoConfig,
-  random,
   interpolate,
   Easing,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { fitText } from '@remotion/layout-utils';
+import { fontFamilySchema, useFont } from './fonts';
+import { formatClock } from './timeFormat';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { seededRandom, seedSchema } from './seededNoise';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const streamGlitchSchema = z.object({
+  primaryText: z.string().min(1),
+  secondaryText: z.string(),
+  // Google Font or font file for all text (see fonts.ts); defaults to the theme font
+  fontFamily: fontFamilySchema.optional(),
+  // Title size in 4K design pixels. Long titles shrink to fit the frame width.
+  maxFontSize: z.number().positive(),
+  secondaryFontSize: z.number().positive(),
+  secondaryLetterSpacing: z.number().min(0),
+  // Colors default to the active theme; set one to override it here only
+  accentColor: zColor().optional(), // Glitched characters
+  baseColor: zColor().optional(),   // Resting text
+  beamColor: zColor().optional(),   // Scanner beam; defaults to the accent color
+  scanDuration: z.number().int().positive(),
+  // Optional "STARTING IN 04:59" line under the title. It counts down, so the
+  // clip only loops seamlessly with it switched off.
+  showCountdown: z.boolean(),
+  countdownLabel: z.string(),
+  countdownStartSeconds: z.number().min(0), // Value shown at frame 0
+  countdownFormat: z.enum(['mm:ss', 'hh:mm:ss']),
+  seed: seedSchema,
+});
+
 export const compositionConfig = {
   id: 'StreamGlitch',
   durationInSeconds: 9,     // 9 seconds = exactly 3 cycles of the 3s scan
+  loop: true,
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: streamGlitchSchema,
   defaultProps: {
     primaryText: 'STARTING SOON',
     secondaryText: '',
-    accentColor: '#00FFFF', // Cyan
-    baseColor: '#FFFFFF',   // White
+    maxFontSize: 350,
+    secondaryFontSize: 40,
+    secondaryLetterSpacing: 800, // Very wide tracking for the small top line
     scanDuration: 90,       // 90 Frames = 3 seconds per sweep
+    showCountdown: false,
+    countdownLabel: 'STARTING IN',
+    countdownStartSeconds: 299, // 04:59
+    countdownFormat: 'mm:ss',
+    seed: 0,
+    theme: { preset: 'neon', palette: { accent: '#00FFFF' } }, // Cyan glitches and beam
   },
 };
 
-type GlitchProps = typeof compositionConfig.defaultProps;
+type GlitchProps = z.infer<typeof streamGlitchSchema>;
 
 // =============================================================================
 // SUB-COMPONENT: SCANLINES (Texture)
 // =============================================================================
 const Scanlines: React.FC<{ scanDuration: number }> = ({ scanDuration }) => {
   const frame = useCurrentFrame();
+  const scale = useScale();
   
   // SEAMLESS SCROLL LOGIC:
-  // The background pattern is 8px high.
+  // The background pattern is 8px high (4K design pixels).
   // We want to scroll exactly 16px (2 full pattern repeats) every scan cycle.
   // This ensures that at frame 90, the position visually matches frame 0.
   const cycleFrame = frame % scanDuration;
-  const scrollOffset = (cycleFrame / scanDuration) * 16; 
+  const scrollOffset = (cycleFrame / scanDuration) * 16 * scale; 
 
   return (
     <AbsoluteFill
       style={{
         background: 'linear-gradient(to bottom, rgba(0,0,0,0) 50%, rgba(0,0,0,0.5) 50%)',
-        backgroundSize: '100% 8px',
+        backgroundSize: `100% ${8 * scale}px`,
         opacity: 0.3,
         mixBlendMode: 'overlay',
         transform: `translateY(${scrollOffset}px)`, 
@@ -63,9 +104,10 @@ const GlitchChar: React.FC<{
   index: number;
   beamProgress: number; // 0 to 1
   totalChars: number;
-  config: GlitchProps;
+  config: GlitchProps & { accentColor: string; baseColor: string };
 }> = ({ char, index, beamProgress, totalChars, config }) => {
   const frame = useCurrentFrame();
+  const scale = useScale();
   
   // Calculate relative position of this character (0.0 to 1.0)
   const charPos = index / totalChars;
@@ -81,18 +123,18 @@ const GlitchChar: React.FC<{
   // This ensures the random jitter pattern repeats perfectly every cycle, 
   // preventing a jump cut when the video loops.
   const loopFrame = frame % config.scanDuration;
-  const seed = index * 123 + loopFrame;
+  const rand = (key: string) => seededRandom(config.seed, index, loopFrame, key);
   
-  const jitterX = (random(seed) - 0.5) * (isHit ? 60 : 4); 
-  const jitterY = (random(seed + 1) - 0.5) * (isHit ? 10 : 2);
+  const jitterX = (rand('jitterX') - 0.5) * (isHit ? 60 : 4) * scale; 
+  const jitterY = (rand('jitterY') - 0.5) * (isHit ? 10 : 2) * scale;
   
   // Color Logic
-  const isFlicker = random(seed + 2) > 0.95;
+  const isFlicker = rand('flicker') > 0.95;
   const color = isHit || isFlicker ? config.accentColor : config.baseColor;
-  const opacity = isHit ? random(seed + 3) * 0.5 + 0.5 : 1;
+  const opacity = isHit ? rand('opacity') * 0.5 + 0.5 : 1;
 
   // RGB Split Logic
-  const split = isHit ? 20 : 0; 
+  const split = isHit ? 20 * scale : 0; 
 
   const commonStyle: React.CSSProperties = {
     position: 'absolute',
@@ -138,7 +180,7 @@ const GlitchChar: React.FC<{
       </span>
       
       {/* LAYER 4: BLOCK DISPLACEMENT */}
-      {isHit && random(seed + 4) > 0.7 && (
+      {isHit && rand('block') > 0.7 && (
         <div 
             style={{
                 position: 'absolute',
@@ -147,7 +189,7 @@ const GlitchChar: React.FC<{
                 width: '100%',
                 height: '50%', 
                 backgroundColor: 'black',
-                transform: `translate(${random(seed+5)*20}px, 0)`,
+                transform: `translate(${rand('blockShift') * 20 * scale}px, 0)`,
             }}
         />
       )}
@@ -155,22 +197,63 @@ const GlitchChar: React.FC<{
   );
 };
 
+// =============================================================================
+// HELPER: GRAPHEMES
+// =============================================================================
+// Splits into user-perceived characters, so emoji, flags and accented letters
+// built from combining marks glitch as one character instead of falling apart.
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+const splitGraphemes = (text: string): string[] => {
+  return Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment);
+};
+
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
+const TITLE_FONT_WEIGHT = 900;
+const TITLE_MAX_WIDTH = 0.85; // Share of the frame width the title may use
+
 const StreamGlitch: React.FC<GlitchProps> = (props) => {
   const frame = useCurrentFrame();
-  const { width, height } = useVideoConfig();
+  const { width, fps } = useVideoConfig();
 
   // 1. SEAMLESS BEAM LOGIC
   // The beam sweeps every 'scanDuration' frames.
   const beamCycle = frame % props.scanDuration;
   const beamProgress = interpolate(beamCycle, [0, props.scanDuration], [-0.2, 1.2]); 
 
-  const chars = props.primaryText.split('');
+  const chars = useMemo(() => splitGraphemes(props.primaryText), [props.primaryText]);
+
+  // 2. THEME (color and font props override it)
+  const theme = useTheme();
+  const { palette } = theme;
+  const background = useBackground();
+  const scale = useScale();
+  const accentColor = props.accentColor ?? palette.accent;
+  const baseColor = props.baseColor ?? palette.text;
+  const beamColor = props.beamColor ?? accentColor;
+  const { fontFamily, ready: fontReady } = useFont(props.fontFamily, [700, TITLE_FONT_WEIGHT]);
+
+  // 3. TITLE SIZE: the design size, or smaller if the title would overflow
+  const maxFontSize = props.maxFontSize * scale;
+  const titleFontSize = fontReady
+    ? Math.min(maxFontSize, fitText({
+        text: props.primaryText,
+        withinWidth: width * TITLE_MAX_WIDTH,
+        fontFamily,
+        fontWeight: TITLE_FONT_WEIGHT,
+      }).fontSize)
+    : maxFontSize;
+
+  // 4. COUNTDOWN (rounded up so 00:00 only shows once time is really up)
+  const countdown = formatClock(
+    Math.ceil(props.countdownStartSeconds - frame / fps),
+    props.countdownFormat,
+  );
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#000000', overflow: 'hidden' }}>
+    <AbsoluteFill style={{ backgroundColor: background.color, overflow: 'hidden' }}>
       
       {/* 1. TOP TEXT */}
       <div
@@ -179,11 +262,11 @@ const StreamGlitch: React.FC<GlitchProps> = (props) => {
           top: '15%',
           width: '100%',
           textAlign: 'center',
-          fontFamily: 'Inter, sans-serif',
+          fontFamily,
           fontWeight: 700,
-          fontSize: 40,
-          letterSpacing: 800,
-          color: props.baseColor,
+          fontSize: props.secondaryFontSize * scale,
+          letterSpacing: props.secondaryLetterSpacing * scale,
+          color: baseColor,
           opacity: 0.8,
         }}
       >
@@ -199,8 +282,8 @@ const StreamGlitch: React.FC<GlitchProps> = (props) => {
           transform: 'translate(-50%, -50%)',
           display: 'flex',
           justifyContent: 'center',
-          fontFamily: 'Inter, sans-serif',
-          fontSize: 350,
+          fontFamily,
+          fontSize: titleFontSize,
           whiteSpace: 'nowrap',
         }}
       >
@@ -211,21 +294,43 @@ const StreamGlitch: React.FC<GlitchProps> = (props) => {
             char={char}
             beamProgress={beamProgress}
             totalChars={chars.length}
-            config={props}
+            config={{ ...props, accentColor, baseColor }}
           />
         ))}
       </div>
 
+      {/* 2b. COUNTDOWN (optional, beneath the title) */}
+      {props.showCountdown && (
+        <div
+          style={{
+            position: 'absolute',
+            top: `calc(50% + ${titleFontSize * 0.7}px)`,
+            width: '100%',
+            textAlign: 'center',
+            fontFamily,
+            fontWeight: 700,
+            fontSize: titleFontSize * 0.25,
+            letterSpacing: titleFontSize * 0.03,
+            color: baseColor,
+            fontVariantNumeric: 'tabular-nums', // Digits don't shift as they change
+            whiteSpace: 'pre',
+          }}
+        >
+          {props.countdownLabel !== '' && `${props.countdownLabel} `}
+          <span style={{ color: accentColor }}>{countdown}</span>
+        </div>
+      )}
+
       {/* 3. THE SCANNER BEAM LIGHT */}
       <AbsoluteFill
         style={{
           background: `linear-gradient(90deg, 
             transparent 0%, 
-            rgba(0, 255, 255, 0) 40%, 
-            rgba(0, 255, 255, 0.1) 48%, 
-            rgba(0, 255, 255, 0.4) 50%, 
-            rgba(0, 255, 255, 0.1) 52%, 
-            rgba(0, 255, 255, 0) 60%, 
+            ${mixColor(beamColor, 0)} 40%, 
+            ${mixColor(beamColor, 0.1)} 48%, 
+            ${mixColor(beamColor, 0.4)} 50%, 
+            ${mixColor(beamColor, 0.1)} 52%, 
+            ${mixColor(beamColor, 0)} 60%, 
             transparent 100%
           )`,
           left: `${(beamProgress * 100) - 50}%`, 
@@ -237,12 +342,14 @@ const StreamGlitch: React.FC<GlitchProps> = (props) => {
       {/* 4. SEAMLESS SCANLINES */}
       <Scanlines scanDuration={props.scanDuration} />
       
-      {/* 5. VIGNETTE */}
-      <AbsoluteFill
-         style={{
-            background: 'radial-gradient(circle, transparent 40%, black 100%)',
-         }}
-      />
+      {/* 5. VIGNETTE (solid backgrounds only) */}
+      {background.isSolid && (
+        <AbsoluteFill
+           style={{
+              background: 'radial-gradient(circle, transparent 40%, black 100%)',
+           }}
+        />
+      )}
     </AbsoluteFill>
   );
 };
@@ -4,28 +4,44 @@ import {
   useCurrentFrame,
   useVideoConfig,
   interpolate,
-  random,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { seededRandom, seedSchema } from './seededNoise';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const glowingLightsSchema = z.object({
+  bulbCount: z.number().int().positive(),
+  // Colors default to the active theme; set one to override it here only
+  wireColor: zColor().optional(),
+  primaryColor: zColor().optional(),   // Glow around the bulbs
+  secondaryColor: zColor().optional(), // Inner bulb color
+  sagStrength: z.number().min(0),
+  seed: seedSchema,
+});
+
 export const compositionConfig = {
   id: 'GlowingLightsString',
   durationInSeconds: 10,
+  loop: true,
   fps: 30,
   width: 3840,  // 4K Width
   height: 2160, // 4K Height
+  schema: glowingLightsSchema,
   defaultProps: {
     bulbCount: 15,        // Bulbs per string
-    wireColor: '#4a3b2a', // Dark brownish wire
-    glowColor: '#ffdd55', // Warm yellow light
-    baseColor: '#ffaa00', // Inner bulb color
+    theme: 'gold',        // Warm yellow bulbs on a dark wire
     sagStrength: 240,     // Gravity effect
+    seed: 0,
   },
 };
 
-type GlowingLightsProps = typeof compositionConfig.defaultProps;
+type GlowingLightsProps = z.infer<typeof glowingLightsSchema>;
 
 // =============================================================================
 // HELPER: MATH & GEOMETRY
@@ -49,13 +65,15 @@ const getPointOnCurve = (
 const Bulb: React.FC<{
   x: number;
   y: number;
-  scale: number;
+  scale: number; // Bulb size multiplier, layout scale included
   seed: number;
   color: string;
   glowColor: string;
   durationInFrames: number;
   currentFrame: number;
 }> = ({ x, y, scale, seed, color, glowColor, durationInFrames, currentFrame }) => {
+  const { palette, glowStrength } = useTheme();
+  const glow = scale * glowStrength;
   
   // --- SEAMLESS FLICKER MATH (UPDATED FOR SPEED) ---
   const progress = currentFrame / durationInFrames;
@@ -91,10 +109,10 @@ const Bulb: React.FC<{
         opacity: opacity,
         // UPDATED: Much more intense, layered glow styles
         boxShadow: `
-          0px 0px ${10 * scale}px ${2 * scale}px ${color}, 
-          0px 0px ${40 * scale}px ${15 * scale}px ${glowColor},
-          0px 0px ${100 * scale}px ${30 * scale}px rgba(255, 160, 50, 0.6),
-          inset 0px 0px ${10 * scale}px rgba(255,255,200, 0.8)
+          0px 0px ${10 * glow}px ${2 * glow}px ${color}, 
+          0px 0px ${40 * glow}px ${15 * glow}px ${glowColor},
+          0px 0px ${100 * glow}px ${30 * glow}px ${mixColor(color, 0.6)},
+          inset 0px 0px ${10 * scale}px ${mixColor(palette.accent, 0.8)}
         `,
         // Adding brightness filter for extra "hot" look
         filter: `brightness(${brightnessBoost}) contrast(1.2)`,
@@ -108,32 +126,40 @@ const Bulb: React.FC<{
 // =============================================================================
 const GlowingLights: React.FC<GlowingLightsProps> = ({
   bulbCount,
-  wireColor,
-  glowColor,
-  baseColor,
+  wireColor: wireColorProp,
+  primaryColor: glowColorProp,
+  secondaryColor: baseColorProp,
   sagStrength,
+  seed,
 }) => {
   const frame = useCurrentFrame();
   const { width, durationInFrames } = useVideoConfig();
+  const { palette } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const glowColor = glowColorProp ?? palette.primary;
+  const baseColor = baseColorProp ?? palette.secondary;
+  const wireColor = wireColorProp ?? mixColor(palette.secondary, 0.3, palette.background);
 
   // --- SCENE LAYOUT ---
+  // x spans follow the frame width; heights, overhangs and sag are 4K pixels
   const strings = useMemo(() => [
-    { start: { x: -100, y: 100 }, end: { x: width * 0.4, y: 300 }, sag: sagStrength },
-    { start: { x: width * 0.3, y: 200 }, end: { x: width * 0.8, y: 160 }, sag: sagStrength + 40 },
-    { start: { x: width * 0.7, y: 80 }, end: { x: width + 100, y: 360 }, sag: sagStrength + 20 },
-    { start: { x: -40, y: 500 }, end: { x: width * 0.5, y: 700 }, sag: sagStrength + 100 },
-    { start: { x: width * 0.4, y: 640 }, end: { x: width + 40, y: 560 }, sag: sagStrength + 120 },
-  ], [width, sagStrength]);
+    { start: { x: -100 * scale, y: 100 * scale }, end: { x: width * 0.4, y: 300 * scale }, sag: sagStrength * scale },
+    { start: { x: width * 0.3, y: 200 * scale }, end: { x: width * 0.8, y: 160 * scale }, sag: (sagStrength + 40) * scale },
+    { start: { x: width * 0.7, y: 80 * scale }, end: { x: width + 100 * scale, y: 360 * scale }, sag: (sagStrength + 20) * scale },
+    { start: { x: -40 * scale, y: 500 * scale }, end: { x: width * 0.5, y: 700 * scale }, sag: (sagStrength + 100) * scale },
+    { start: { x: width * 0.4, y: 640 * scale }, end: { x: width + 40 * scale, y: 560 * scale }, sag: (sagStrength + 120) * scale },
+  ], [width, sagStrength, scale]);
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#050302', overflow: 'hidden' }}>
+    <AbsoluteFill style={{ backgroundColor: background.color, overflow: 'hidden' }}>
       
       {/* BACKGROUND ATMOSPHERE (Darker for contrast) */}
       <div 
          style={{ 
             position: 'absolute', 
-            top: 0, left: 0, right: 0, height: '1500px',
-            background: 'radial-gradient(ellipse at center top, #3a2f1a 0%, transparent 80%)',
+            top: 0, left: 0, right: 0, height: `${1500 * scale}px`,
+            background: `radial-gradient(ellipse at center top, ${mixColor(glowColor, 0.2)} 0%, transparent 80%)`,
             opacity: 0.6 
          }} 
       />
@@ -149,7 +175,7 @@ const GlowingLights: React.FC<GlowingLightsProps> = ({
         const bulbs = new Array(currentBulbCount).fill(0).map((_, i) => {
           const t = (i + 1) / (currentBulbCount + 1);
           const pos = getPointOnCurve(str.start, { x: midX, y: midY + str.sag }, str.end, t);
-          return { ...pos, id: i, seed: random(index * 100 + i) };
+          return { ...pos, id: i, seed: seededRandom(seed, index, i) };
         });
 
         return (
@@ -160,9 +186,9 @@ const GlowingLights: React.FC<GlowingLightsProps> = ({
                  d={pathData}
                  fill="none"
                  stroke={wireColor}
-                 strokeWidth={4}
+                 strokeWidth={4 * scale}
                  strokeLinecap="round"
-                 style={{ filter: 'drop-shadow(0px 4px 4px rgba(0,0,0,0.5))' }}
+                 style={{ filter: `drop-shadow(0px ${4 * scale}px ${4 * scale}px rgba(0,0,0,0.5))` }}
                />
              </svg>
 
@@ -171,8 +197,8 @@ const GlowingLights: React.FC<GlowingLightsProps> = ({
                <Bulb
                  key={b.id}
                  x={b.x}
-                 y={b.y + 8}
-                 scale={random(b.seed) * 0.5 + 0.8}
+                 y={b.y + 8 * scale}
+                 scale={(seededRandom(seed, index, b.id, 'scale') * 0.5 + 0.8) * scale}
                  seed={b.seed}
                  color={baseColor}
                  glowColor={glowColor}
@@ -184,13 +210,15 @@ const GlowingLights: React.FC<GlowingLightsProps> = ({
         );
       })}
 
-      {/* FOREGROUND VIGNETTE (Darker edges to pop lights) */}
-      <AbsoluteFill style={{ pointerEvents: 'none' }}>
-         <div style={{
-            width: '100%', height: '100%',
-            background: 'radial-gradient(circle, transparent 40%, rgba(0,0,0,0.6) 100%)'
-         }}/>
-      </AbsoluteFill>
+      {/* FOREGROUND VIGNETTE (Darker edges to pop lights; solid backgrounds only) */}
+      {background.isSolid && (
+        <AbsoluteFill style={{ pointerEvents: 'none' }}>
+           <div style={{
+              width: '100%', height: '100%',
+              background: 'radial-gradient(circle, transparent 40%, rgba(0,0,0,0.6) 100%)'
+           }}/>
+        </AbsoluteFill>
+      )}
 
     </AbsoluteFill>
   );
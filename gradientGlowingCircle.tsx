@@ -6,37 +6,69 @@ import {
   interpolate,
   Easing,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { FramedMedia, mediaFitSchema, mediaSrcSchema } from './framedMedia';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const neonCircleFrameSchema = z.object({
+  // Colors default to the active theme; set one to override it here only
+  primaryColor: zColor().optional(),
+  secondaryColor: zColor().optional(),
+  iconSize: z.number().positive(),
+  strokeThickness: z.number().positive(),
+  // Optional video or image shown in the hole, e.g. an avatar or a clip
+  src: mediaSrcSchema,
+  fit: mediaFitSchema,
+}).refine((props) => props.strokeThickness * 2 < props.iconSize, {
+  message: 'strokeThickness must be less than half of iconSize',
+  path: ['strokeThickness'],
+});
+
 export const compositionConfig = {
   id: 'NeonCircleFrame',
   durationInFrames: 300, // 10 seconds (Seamless Loop)
+  loop: true,
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: neonCircleFrameSchema,
   defaultProps: {
-    cyanColor: '#00FFFF', // Electric Cyan
-    pinkColor: '#FF00FF', // Hot Magenta
     iconSize: 1200, 
     strokeThickness: 40,
+    src: '',
+    fit: 'cover',
   },
 };
 
-type Props = typeof compositionConfig.defaultProps;
+type Props = z.infer<typeof neonCircleFrameSchema>;
 
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
 const NeonCircleFrame: React.FC<Props> = ({
-  cyanColor,
-  pinkColor,
-  iconSize,
-  strokeThickness,
+  primaryColor,
+  secondaryColor,
+  iconSize: designIconSize,
+  strokeThickness: designStrokeThickness,
+  src,
+  fit,
 }) => {
   const frame = useCurrentFrame();
-  const { durationInFrames } = useVideoConfig();
+  const { width, height, durationInFrames } = useVideoConfig();
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const iconSize = designIconSize * scale;
+  const strokeThickness = designStrokeThickness * scale;
+  const glow = glowStrength * scale;
+  const cyanColor = primaryColor ?? palette.primary;
+  const pinkColor = secondaryColor ?? palette.secondary;
 
   // --- ANIMATION ---
   // Constant rotation for seamless loop
@@ -62,63 +94,76 @@ const NeonCircleFrame: React.FC<Props> = ({
     top: 0, left: 0,
   };
 
-  // 2. The Inner Cover (The black hole)
-  // This sits on top to turn the disc into a ring
-  const holeSize = iconSize - (strokeThickness * 2);
-  const holeStyle: React.CSSProperties = {
-    position: 'absolute',
-    width: holeSize,
-    height: holeSize,
-    borderRadius: '50%',
-    backgroundColor: '#000000', // Must match background to look transparent
-    // Center it relative to the container
-    top: strokeThickness,
-    left: strokeThickness,
-    zIndex: 10, // Ensure it sits on top
-  };
+  // 2. The Hole
+  // A mask cuts the center out of every layer, turning the disc into a ring.
+  // The hole is truly empty, so whatever is behind shows through it (including
+  // video when rendered with a transparent background).
+  const holeRadius = iconSize / 2 - strokeThickness;
+  const holeMask = `radial-gradient(circle at center, transparent ${holeRadius}px, black ${holeRadius + 1}px)`;
 
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#000000',
+        backgroundColor: background.color,
         display: 'flex',
         justifyContent: 'center',
         alignItems: 'center',
       }}
     >
-      {/* The Container holds everything centered */}
-      <div style={{ position: 'relative', width: iconSize, height: iconSize }}>
-
-        {/* --- LAYER 1: ATMOSPHERIC BLOOM (Deep Glow) --- */}
-        {/* Very blurred, low opacity. Creates the ambiance. */}
-        <div
-          style={{
-            ...discStyle,
-            filter: 'blur(100px)',
-            opacity: 0.6,
-            transform: 'scale(1.1)', // Slightly larger to spread light
+      {/* Media fills the hole exactly, drawn before the ring and its glow */}
+      {src !== '' && (
+        <FramedMedia
+          src={src}
+          fit={fit}
+          box={{
+            x: width / 2 - holeRadius,
+            y: height / 2 - holeRadius,
+            width: holeRadius * 2,
+            height: holeRadius * 2,
           }}
+          clipPath="circle(50%)"
         />
+      )}
 
-        {/* --- LAYER 2: INTENSE GLOW (Mid Glow) --- */}
-        {/* Moderately blurred. Creates the "hot" feel. */}
-        <div
-          style={{
-            ...discStyle,
-            filter: 'blur(40px)',
-            opacity: 0.8,
-          }}
-        />
+      {/* The mask covers the whole frame so the blurred glow outside the disc survives */}
+      <AbsoluteFill
+        style={{
+          justifyContent: 'center',
+          alignItems: 'center',
+          maskImage: holeMask,
+          WebkitMaskImage: holeMask,
+        }}
+      >
+        {/* The Container holds everything centered */}
+        <div style={{ position: 'relative', width: iconSize, height: iconSize }}>
+
+          {/* --- LAYER 1: ATMOSPHERIC BLOOM (Deep Glow) --- */}
+          {/* Very blurred, low opacity. Creates the ambiance. */}
+          <div
+            style={{
+              ...discStyle,
+              filter: `blur(${100 * glow}px)`,
+              opacity: 0.6,
+              transform: 'scale(1.1)', // Slightly larger to spread light
+            }}
+          />
 
-        {/* --- LAYER 3: CORE RING (Sharp) --- */}
-        {/* The actual sharp neon line. */}
-        <div style={discStyle} />
+          {/* --- LAYER 2: INTENSE GLOW (Mid Glow) --- */}
+          {/* Moderately blurred. Creates the "hot" feel. */}
+          <div
+            style={{
+              ...discStyle,
+              filter: `blur(${40 * glow}px)`,
+              opacity: 0.8,
+            }}
+          />
 
-        {/* --- LAYER 4: THE BLACK HOLE --- */}
-        {/* Covers the center to make it a ring */}
-        <div style={holeStyle} />
+          {/* --- LAYER 3: CORE RING (Sharp) --- */}
+          {/* The actual sharp neon line. */}
+          <div style={discStyle} />
         
-      </div>
+        </div>
+      </AbsoluteFill>
     </AbsoluteFill>
   );
 };
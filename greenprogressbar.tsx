@@ -5,110 +5,141 @@ import {
   useVideoConfig,
   interpolate,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { fontFamilySchema, useFont } from './fonts';
+import { progressTrackSchema, sampleProgressTrack, useProgressTrack } from './progressTrack';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+// Colors default to the active theme; set one to override it here only.
+export const cleanProgressBarSchema = z.object({
+  label: z.string(), // Shown above the bar
+  primaryColor: zColor().optional(),
+  trackColor: zColor().optional(),
+  fontFamily: fontFamilySchema.optional(), // Google Font or font file (see fonts.ts)
+  // Scripted progress (see progressTrack.ts); without it the bar fills evenly
+  progressTrack: progressTrackSchema.optional(),
+  progressTrackSrc: z.string(), // Optional JSON file in public/ that replaces progressTrack
+});
+
 export const compositionConfig = {
   id: 'CleanProgressBar',
   durationInFrames: 300, // 10 seconds * 30 fps
   fps: 30,
   width: 3840,
   height: 2160,
-};
-
-// Theme constants
-const THEME = {
-  backgroundColor: '#000000',
-  primaryColor: '#4CAF50',
-  trackColor: '#222222',
-  textColor: '#FFFFFF',
-  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif',
+  schema: cleanProgressBarSchema,
+  defaultProps: {
+    label: 'Loading...',
+    progressTrackSrc: '',
+    theme: { preset: 'neon', palette: { primary: '#4CAF50' } }, // Material green
+  },
 };
 
 // =============================================================================
 // STYLES
 // =============================================================================
+// Sizes are 4K design pixels, multiplied by the layout scale (see layout.ts)
 const containerStyle: React.CSSProperties = {
   display: 'flex',
   flexDirection: 'column',
   justifyContent: 'center',
   alignItems: 'center',
-  backgroundColor: THEME.backgroundColor,
-  fontFamily: THEME.fontFamily,
-  color: THEME.textColor,
 };
 
-const contentWrapperStyle: React.CSSProperties = {
-  width: 1600,
+const contentWrapperStyle = (scale: number): React.CSSProperties => ({
+  width: 1600 * scale,
   display: 'flex',
   flexDirection: 'column',
-  gap: 20,
-};
+  gap: 20 * scale,
+});
 
-const labelStyle: React.CSSProperties = {
-  fontSize: 48,
+const labelStyle = (scale: number): React.CSSProperties => ({
+  fontSize: 48 * scale,
   fontWeight: 500,
-  letterSpacing: '1px',
+  letterSpacing: `${scale}px`,
   opacity: 0.9,
-};
+});
 
-const trackStyle: React.CSSProperties = {
+const trackStyle = (scale: number): React.CSSProperties => ({
   width: '100%',
-  height: 40,
-  backgroundColor: THEME.trackColor,
-  borderRadius: 4,
+  height: 40 * scale,
+  borderRadius: 4 * scale,
   overflow: 'hidden',
-};
+});
 
 const fillStyle: React.CSSProperties = {
   height: '100%',
-  backgroundColor: THEME.primaryColor,
 };
 
-const percentageStyle: React.CSSProperties = {
-  fontSize: 64,
+const percentageStyle = (scale: number): React.CSSProperties => ({
+  fontSize: 64 * scale,
   fontWeight: 700,
   textAlign: 'right',
   fontVariantNumeric: 'tabular-nums',
-};
+});
 
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
-export const CleanProgressBar: React.FC = () => {
+type Props = z.infer<typeof cleanProgressBarSchema>;
+
+export const CleanProgressBar: React.FC<Props> = (props) => {
   const frame = useCurrentFrame();
-  const { durationInFrames } = useVideoConfig();
+  const { fps, durationInFrames } = useVideoConfig();
+  const track = useProgressTrack(props.progressTrack, props.progressTrackSrc);
+  const { palette, glowStrength } = useTheme();
+  const { fontFamily } = useFont(props.fontFamily, [500, 700]);
+  const background = useBackground();
+  const scale = useScale();
+  const primaryColor = props.primaryColor ?? palette.primary;
+  const trackColor = props.trackColor ?? mixColor(palette.text, 0.13, palette.background);
 
   // FIX: Subtract 1 from duration so the last frame maps to exactly 1.0
-  const progress = interpolate(frame, [0, durationInFrames - 1], [0, 1], {
-    extrapolateRight: 'clamp',
-  });
+  const progress = track
+    ? sampleProgressTrack(track, frame / fps) / 100
+    : interpolate(frame, [0, durationInFrames - 1], [0, 1], {
+        extrapolateRight: 'clamp',
+      });
 
   // Now frame 299 will result in progress = 1, and 1 * 100 = 100.
   const percentage = Math.floor(progress * 100);
 
   return (
-    <AbsoluteFill style={containerStyle}>
-      <div style={contentWrapperStyle}>
+    <AbsoluteFill
+      style={{
+        ...containerStyle,
+        backgroundColor: background.color,
+        fontFamily,
+        color: palette.text,
+      }}
+    >
+      <div style={contentWrapperStyle(scale)}>
         
         {/* 1. Top Label */}
-        <div style={labelStyle}>
-          Loading...
+        <div style={labelStyle(scale)}>
+          {props.label}
         </div>
 
         {/* 2. The Progress Bar Track & Fill */}
-        <div style={trackStyle}>
+        <div style={{ ...trackStyle(scale), backgroundColor: trackColor }}>
           <div 
             style={{
                 ...fillStyle,
+                backgroundColor: primaryColor,
+                boxShadow: `0 0 ${20 * glowStrength * scale}px ${primaryColor}`,
                 width: `${progress * 100}%`
             }} 
           />
         </div>
 
         {/* 3. Percentage Text */}
-        <div style={percentageStyle}>
+        <div style={percentageStyle(scale)}>
           {percentage}%
         </div>
 
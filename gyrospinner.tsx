@@ -5,24 +5,36 @@ import {
   useVideoConfig,
   interpolate,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const gyroscopeSchema = z.object({
+  primaryColor: zColor().optional(), // Metal tint; defaults to the theme's primary color
+  ringSize: z.number().positive(),
+  thickness: z.number().positive(),
+});
+
 export const compositionConfig = {
   id: 'GyroscopeV2',
   durationInFrames: 300, // 10 seconds
   fps: 30,
   width: 3840,
   height: 2160,
+  schema: gyroscopeSchema,
   defaultProps: {
-    goldColor: '#00FFFF',
+    theme: 'gold',        // Polished gold rings
     ringSize: 1000,
     thickness: 20,
   },
 };
 
-type Props = typeof compositionConfig.defaultProps;
+type Props = z.infer<typeof gyroscopeSchema>;
 
 // =============================================================================
 // SUB-COMPONENT: GYRO RING
@@ -35,7 +47,12 @@ const GyroRing: React.FC<{
   wobbleY: number;
   dashArray: string;    // Creates gaps so we can SEE it spin
   hasGem?: boolean;     // Adds a physical object to the ring
-}> = ({ radius, thickness, rotation, wobbleX, wobbleY, dashArray, hasGem }) => {
+  color: string;        // Metal tint; shades and highlights are mixed from it
+}> = ({ radius, thickness, rotation, wobbleX, wobbleY, dashArray, hasGem, color }) => {
+  const { glowStrength } = useTheme();
+  const scale = useScale();
+  const shade = (amount: number) => mixColor(color, amount, 'black');
+  const highlight = mixColor(color, 0.3, 'white');
   
   const size = radius * 2 + thickness * 4; // Add buffer for gems/glow
   const center = size / 2;
@@ -59,15 +76,15 @@ const GyroRing: React.FC<{
     >
       <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`} style={{ overflow: 'visible' }}>
         <defs>
-          <linearGradient id="luxGold" x1="0%" y1="0%" x2="100%" y2="100%">
-            <stop offset="0%" stopColor="#BF953F" />
-            <stop offset="25%" stopColor="#FCF6BA" /> 
-            <stop offset="50%" stopColor="#B38728" />
-            <stop offset="75%" stopColor="#FBF5B7" />
-            <stop offset="100%" stopColor="#AA771C" />
+          <linearGradient id="luxMetal" x1="0%" y1="0%" x2="100%" y2="100%">
+            <stop offset="0%" stopColor={shade(0.75)} />
+            <stop offset="25%" stopColor={highlight} /> 
+            <stop offset="50%" stopColor={shade(0.7)} />
+            <stop offset="75%" stopColor={highlight} />
+            <stop offset="100%" stopColor={shade(0.65)} />
           </linearGradient>
           <filter id="glow">
-             <feDropShadow dx="0" dy="0" stdDeviation="5" floodColor="#B38728" floodOpacity="0.6" />
+             <feDropShadow dx="0" dy="0" stdDeviation={5 * glowStrength * scale} floodColor={shade(0.7)} floodOpacity="0.6" />
           </filter>
         </defs>
 
@@ -77,7 +94,7 @@ const GyroRing: React.FC<{
           cy={center}
           r={radius}
           fill="none"
-          stroke="url(#luxGold)"
+          stroke="url(#luxMetal)"
           strokeWidth={thickness}
           strokeDasharray={dashArray} // CRITICAL: This makes movement visible
           strokeLinecap="round"
@@ -90,9 +107,9 @@ const GyroRing: React.FC<{
              cx={center + radius} // Position at 0 degrees relative to center
              cy={center}
              r={thickness * 1.2}
-             fill="#FCF6BA"
+             fill={highlight}
              style={{ 
-                 filter: 'drop-shadow(0 0 10px white)',
+                 filter: `drop-shadow(0 0 ${10 * scale}px white)`,
                  // No extra transform needed; it rotates with the parent SVG div
              }}
            />
@@ -105,9 +122,19 @@ const GyroRing: React.FC<{
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
-const GyroscopeV2: React.FC<Props> = ({ ringSize, thickness }) => {
+const GyroscopeV2: React.FC<Props> = ({
+  primaryColor,
+  ringSize: designRingSize,
+  thickness: designThickness,
+}) => {
   const frame = useCurrentFrame();
   const { durationInFrames } = useVideoConfig();
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const ringSize = designRingSize * scale;
+  const thickness = designThickness * scale;
+  const metalColor = primaryColor ?? palette.primary;
 
   // --- ANIMATION: SPINNING (Z-Axis) ---
   const innerSpin = interpolate(frame, [0, durationInFrames], [0, 360]);
@@ -131,19 +158,21 @@ const GyroscopeV2: React.FC<Props> = ({ ringSize, thickness }) => {
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#080808', // Premium Carbon Black
+        backgroundColor: background.color,
         display: 'flex',
         justifyContent: 'center',
         alignItems: 'center',
-        perspective: '1200px', // Strong 3D perspective
+        perspective: `${1200 * scale}px`, // Strong 3D perspective
         overflow: 'hidden',
       }}
     >
-       {/* Background Radial Gradient */}
-       <AbsoluteFill style={{ 
-           background: 'radial-gradient(circle at center, #1a1a1a 0%, #000000 70%)',
-           zIndex: -1 
-       }} />
+       {/* Background Radial Gradient (solid backgrounds only) */}
+       {background.isSolid && (
+         <AbsoluteFill style={{ 
+             background: `radial-gradient(circle at center, ${mixColor(palette.text, 0.1, background.color)} 0%, ${background.color} 70%)`,
+             zIndex: -1 
+         }} />
+       )}
 
       <div style={{ position: 'relative', width: ringSize, height: ringSize, transformStyle: 'preserve-3d' }}>
           
@@ -156,6 +185,7 @@ const GyroscopeV2: React.FC<Props> = ({ ringSize, thickness }) => {
             wobbleY={10 - wobbleSlow}
             dashArray={innerDash}
             hasGem={true}
+            color={metalColor}
           />
 
           {/* OUTER RING: Spins Counter-Clockwise, Tilts Horizontally + Wobbles */}
@@ -167,6 +197,7 @@ const GyroscopeV2: React.FC<Props> = ({ ringSize, thickness }) => {
             wobbleY={45 + wobbleSlow}
             dashArray={outerDash}
             hasGem={false}
+            color={metalColor}
           />
 
           {/* CENTRAL CORE: A floating gold sphere */}
@@ -177,8 +208,8 @@ const GyroscopeV2: React.FC<Props> = ({ ringSize, thickness }) => {
               height: thickness * 4,
               transform: 'translate(-50%, -50%)',
               borderRadius: '50%',
-              background: 'radial-gradient(circle at 30% 30%, #fff, #D4AF37)',
-              boxShadow: '0 0 30px #D4AF37',
+              background: `radial-gradient(circle at 30% 30%, #fff, ${metalColor})`,
+              boxShadow: `0 0 ${30 * glowStrength * scale}px ${metalColor}`,
               zIndex: 10
           }} />
 
@@ -0,0 +1,38 @@
+import { useVideoConfig } from 'remotion';
+
+// =============================================================================
+// LAYOUT
+// =============================================================================
+// Every component is designed on a 3840x2160 (4K UHD) canvas: pixel numbers in
+// code and in props (sizes, strokes, font sizes, offsets) are 4K design pixels.
+// Multiply them by the scale to render the same layout at any output size.
+export const DESIGN_WIDTH = 3840;
+export const DESIGN_HEIGHT = 2160;
+
+// The largest scale at which the 4K design still fits inside the frame. 1080p
+// gives 0.5, 720p 1/3; a vertical 1080x1920 frame is limited by its width.
+export const getScale = (width: number, height: number): number => {
+  return Math.min(width / DESIGN_WIDTH, height / DESIGN_HEIGHT);
+};
+
+export const useScale = (): number => {
+  const { width, height } = useVideoConfig();
+  return getScale(width, height);
+};
+
+// =============================================================================
+// ORIENTATION
+// =============================================================================
+// Components that need a different arrangement for the vertical and square
+// variants (see compositionRegistry.ts) branch on this instead of the raw size.
+export type Orientation = 'landscape' | 'portrait' | 'square';
+
+export const getOrientation = (width: number, height: number): Orientation => {
+  if (width === height) return 'square';
+  return width > height ? 'landscape' : 'portrait';
+};
+
+export const useOrientation = (): Orientation => {
+  const { width, height } = useVideoConfig();
+  return getOrientation(width, height);
+};
@@ -5,28 +5,43 @@ import {
   useVideoConfig,
   interpolate,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const stringLightsSchema = z.object({
+  bulbSpacing: z.number().positive(),
+  swayIntensity: z.number().min(0),
+  // Colors default to the active theme; set one to override it here only
+  primaryColor: zColor().optional(), // Bulb glass and aura
+  accentColor: zColor().optional(),  // Hot center
+  wireColor: zColor().optional(),
+});
+
 export const compositionConfig = {
   id: 'GlowingStringLights',
   durationInSeconds: 10,
+  loop: true,
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: stringLightsSchema,
   defaultProps: {
     bulbSpacing: 80,       // Spaced out slightly more for the bigger bulbs
     swayIntensity: 20,     // Gentle movement
-    colors: {
-      warmGold: '#FFB700', // Deep Warm Yellow/Orange
-      filament: '#FFFDD0', // Hot center
-      wire: '#444444',
-    },
+    theme: 'gold',         // Deep warm yellow bulbs
   },
 };
 
-type LightProps = typeof compositionConfig.defaultProps;
+type LightProps = z.infer<typeof stringLightsSchema>;
+
+// Props after the theme has filled in every color
+type ResolvedLightProps = LightProps & { colors: { warmGold: string; filament: string; wire: string } };
 
 // =============================================================================
 // SUB-COMPONENT: SINGLE BULB
@@ -36,10 +51,12 @@ const GlowingBulb: React.FC<{
   y: number;
   color: string;
   index: number;
-  config: LightProps;
+  config: ResolvedLightProps;
 }> = ({ x, y, color, index, config }) => {
   const frame = useCurrentFrame();
   const { durationInFrames } = useVideoConfig();
+  const { glowStrength } = useTheme();
+  const layoutScale = useScale(); // The bulb is drawn in 4K design pixels
 
   // --- SEAMLESS LOOP & RANDOM FLICKER LOGIC ---
   // 1. Calculate progress from 0 to 1
@@ -63,7 +80,7 @@ const GlowingBulb: React.FC<{
   const scale = interpolate(flicker, [0.7, 1], [0.95, 1.05]);
 
   return (
-    <g transform={`translate(${x}, ${y}) scale(${scale})`}>
+    <g transform={`translate(${x}, ${y}) scale(${scale * layoutScale})`}>
       {/* 1. The Aura (Glow) - Layered behind */}
       {/* We use two layers of blur for a rich "Bloom" effect */}
       <circle
@@ -72,7 +89,7 @@ const GlowingBulb: React.FC<{
         r="40" 
         fill={color}
         opacity={flicker * 0.4} // The aura fades in and out
-        style={{ filter: 'blur(20px)' }} 
+        style={{ filter: `blur(${20 * glowStrength}px)` }} 
       />
       <circle
         cx="0"
@@ -80,7 +97,7 @@ const GlowingBulb: React.FC<{
         r="20" 
         fill={color}
         opacity={flicker * 0.6}
-        style={{ filter: 'blur(10px)' }}
+        style={{ filter: `blur(${10 * glowStrength}px)` }}
       />
 
       {/* 2. The Socket */}
@@ -114,22 +131,23 @@ const GlowingBulb: React.FC<{
 const LightString: React.FC<{
   type: 'curve' | 'straight' | 'wave';
   yPos: number;
-  config: LightProps;
+  config: ResolvedLightProps;
   swayOffset: number;
 }> = ({ type, yPos, config, swayOffset }) => {
   const { width, durationInFrames } = useVideoConfig();
   const frame = useCurrentFrame();
+  const scale = useScale(); // Sag, sway and spacing are 4K design pixels
 
   // --- SEAMLESS SWAY PHYSICS ---
   const progress = frame / durationInFrames;
   const loopRad = progress * Math.PI * 2;
   
   // Sway moves back and forth perfectly within the loop duration
-  const sway = Math.sin(loopRad + swayOffset) * config.swayIntensity;
+  const sway = Math.sin(loopRad + swayOffset) * config.swayIntensity * scale;
 
   const points = useMemo(() => {
     const pts = [];
-    const steps = Math.ceil(width / 20);
+    const steps = Math.ceil(width / (20 * scale));
     
     for (let i = 0; i <= steps; i++) {
       const x = (i / steps) * width;
@@ -138,7 +156,7 @@ const LightString: React.FC<{
 
       if (type === 'curve') {
         // Catenary Curve
-        const sag = 200;
+        const sag = 200 * scale;
         // Add sway influence that diminishes at the anchor points (ends)
         const swayFactor = Math.sin(p * Math.PI); 
         y = yPos + (swayFactor * sag) + (sway * swayFactor);
@@ -150,20 +168,20 @@ const LightString: React.FC<{
       else if (type === 'wave') {
         // Sine Wave
         const frequency = 4 * Math.PI; 
-        const amplitude = 80;
-        y = yPos + Math.sin(p * frequency + (sway/50)) * amplitude;
+        const amplitude = 80 * scale;
+        y = yPos + Math.sin(p * frequency + (sway / (50 * scale))) * amplitude;
       }
 
       pts.push({ x, y });
     }
     return pts;
-  }, [width, yPos, type, sway]);
+  }, [width, yPos, type, sway, scale]);
 
   const pathData = `M ${points.map(p => `${p.x},${p.y}`).join(' L ')}`;
 
   // Place Bulbs
   const bulbs = [];
-  const bulbCount = Math.floor(width / config.bulbSpacing);
+  const bulbCount = Math.floor(width / (config.bulbSpacing * scale));
   
   for (let i = 1; i < bulbCount; i++) {
     const index = Math.floor((i / bulbCount) * points.length);
@@ -188,7 +206,7 @@ const LightString: React.FC<{
         d={pathData}
         fill="none"
         stroke={config.colors.wire}
-        strokeWidth="3"
+        strokeWidth={3 * scale}
         strokeLinecap="round"
       />
       {bulbs}
@@ -201,9 +219,19 @@ const LightString: React.FC<{
 // =============================================================================
 export const GlowingStringLights: React.FC<LightProps> = (props) => {
   const { width, height } = useVideoConfig();
+  const { palette } = useTheme();
+  const background = useBackground();
+  const config: ResolvedLightProps = {
+    ...props,
+    colors: {
+      warmGold: props.primaryColor ?? palette.primary,
+      filament: props.accentColor ?? palette.accent,
+      wire: props.wireColor ?? mixColor(palette.text, 0.27, palette.background),
+    },
+  };
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#050300' }}> {/* Very dark warm black */}
+    <AbsoluteFill style={{ backgroundColor: background.color }}>
       
       <svg
         width={width}
@@ -215,7 +243,7 @@ export const GlowingStringLights: React.FC<LightProps> = (props) => {
         <LightString
           type="curve"
           yPos={height * 0.1}
-          config={props}
+          config={config}
           swayOffset={0}
         />
 
@@ -223,7 +251,7 @@ export const GlowingStringLights: React.FC<LightProps> = (props) => {
         <LightString
           type="straight"
           yPos={height * 0.5}
-          config={props}
+          config={config}
           swayOffset={2} // Offset radian for variety
         />
 
@@ -231,7 +259,7 @@ export const GlowingStringLights: React.FC<LightProps> = (props) => {
         <LightString
           type="wave"
           yPos={height * 0.75}
-          config={props}
+          config={config}
           swayOffset={4}
         />
       </svg>
@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { getBoundingBox, getLength, scalePath, translatePath } from '@remotion/paths';
+import { useTheme } from './theme';
+
+// =============================================================================
+// TYPES & SCHEMAS
+// =============================================================================
+// The outline a neon border follows:
+//   rect   - a rounded rectangle filling the box
+//   circle - the largest circle centered in the box
+//   path   - any SVG path, scaled uniformly to fit the box and centered in it
+export const borderShapeSchema = z.enum(['rect', 'circle', 'path']);
+
+export type BorderShape = z.infer<typeof borderShapeSchema>;
+
+// Beams chasing each other around the outline. Lengths are shares of the
+// perimeter; beam i starts i * (length + gap) ahead of the first one.
+// `colors` cycle over the beams; empty alternates the theme's primary and
+// secondary colors.
+export const neonBeamsSchema = z.object({
+  count: z.number().int().min(1),
+  length: z.number().gt(0).max(1),
+  gap: z.number().min(0),
+  direction: z.enum(['forward', 'reverse']), // Along the path as drawn; rect and circle run clockwise
+  colors: z.array(zColor()),
+}).refine((beams) => beams.count * (beams.length + beams.gap) <= 1 + 1e-9, {
+  message: 'The beams do not fit: count * (length + gap) must be at most 1',
+});
+
+export type NeonBeams = z.infer<typeof neonBeamsSchema>;
+
+// Pixel rectangle a border is drawn inside.
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// =============================================================================
+// HELPERS: PATHS
+// =============================================================================
+// Clockwise from the end of the top-left corner.
+export const roundedRectPath = ({ x, y, width, height }: Box, radius: number): string => {
+  const l = x;
+  const t = y;
+  const r = x + width;
+  const b = y + height;
+  const rad = Math.min(radius, width / 2, height / 2);
+
+  return [
+    `M ${l + rad} ${t}`,
+    `L ${r - rad} ${t}`,
+    `A ${rad} ${rad} 0 0 1 ${r} ${t + rad}`,
+    `L ${r} ${b - rad}`,
+    `A ${rad} ${rad} 0 0 1 ${r - rad} ${b}`,
+    `L ${l + rad} ${b}`,
+    `A ${rad} ${rad} 0 0 1 ${l} ${b - rad}`,
+    `L ${l} ${t + rad}`,
+    `A ${rad} ${rad} 0 0 1 ${l + rad} ${t}`,
+    'Z',
+  ].join(' ');
+};
+
+// Clockwise from 12 o'clock.
+export const circlePath = ({ x, y, width, height }: Box): string => {
+  const r = Math.min(width, height) / 2;
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  return `M ${cx} ${cy - r} A ${r} ${r} 0 1 1 ${cx} ${cy + r} A ${r} ${r} 0 1 1 ${cx} ${cy - r} Z`;
+};
+
+export const fitPathToBox = (d: string, box: Box): string => {
+  const bounds = getBoundingBox(d);
+  const fit = Math.min(box.width / bounds.width, box.height / bounds.height);
+  const atOrigin = translatePath(d, -bounds.x1, -bounds.y1);
+  return translatePath(
+    scalePath(atOrigin, fit, fit),
+    box.x + (box.width - bounds.width * fit) / 2,
+    box.y + (box.height - bounds.height * fit) / 2,
+  );
+};
+
+// True when `d` is path data with some length to draw along.
+export const isDrawablePath = (d: string): boolean => {
+  try {
+    return getLength(d) > 0;
+  } catch {
+    return false;
+  }
+};
+
+export const getBorderPath = (
+  shape: BorderShape,
+  box: Box,
+  options: { cornerRadius: number; path: string }, // cornerRadius in px
+): string => {
+  if (shape === 'circle') return circlePath(box);
+  if (shape === 'path') return fitPathToBox(options.path, box);
+  return roundedRectPath(box, options.cornerRadius);
+};
+
+// =============================================================================
+// SUB-COMPONENT: CHASING BEAMS
+// =============================================================================
+// Renders `beams` along `pathData` inside an <svg>. `progress` is how far the
+// first beam has travelled, in laps; whole laps look identical, so 0 -> 1 over
+// the clip loops seamlessly.
+export const ChasingBeams: React.FC<{
+  pathData: string;
+  beams: NeonBeams;
+  progress: number;
+  thickness: number;     // px
+  glow: number;          // Theme glow strength times layout scale
+  glowIntensity: number;
+}> = ({ pathData, beams, progress, thickness, glow, glowIntensity }) => {
+  const { palette } = useTheme();
+
+  // The perimeter comes from the path itself (getLength is getTotalLength()
+  // without a DOM), so any shape works without its own formula.
+  const perimeter = useMemo(() => getLength(pathData), [pathData]);
+
+  // Moving the dash offset towards negative pushes the dashes forward along the path
+  const baseOffset = (beams.direction === 'forward' ? -1 : 1) * progress * perimeter;
+  const beamLength = perimeter * beams.length;
+
+  // Each beam is one dash followed by a gap that covers the rest of the lap
+  const dashArray = `${beamLength} ${perimeter - beamLength}`;
+  const colors = beams.colors.length > 0 ? beams.colors : [palette.primary, palette.secondary];
+
+  const renderBeam = (color: string, offset: number, key: number) => {
+    const dash = {
+      d: pathData,
+      stroke: color,
+      fill: 'none',
+      strokeLinecap: 'round' as const,
+      strokeDasharray: dashArray,
+      strokeDashoffset: offset,
+    };
+
+    return (
+      <g key={key}>
+        {/* WIDE ATMOSPHERE GLOW (Soft blur) */}
+        <path
+          {...dash}
+          strokeWidth={thickness * 3}
+          style={{ filter: `blur(${30 * glow}px)`, opacity: 0.6 * glowIntensity }}
+        />
+
+        {/* TIGHT GLOW (Bright) */}
+        <path
+          {...dash}
+          strokeWidth={thickness * 1.5}
+          style={{ filter: `blur(${10 * glow}px)`, opacity: 0.8 * glowIntensity }}
+        />
+
+        {/* CORE TUBE (Solid Color) */}
+        <path {...dash} strokeWidth={thickness} style={{ opacity: 1 }} />
+
+        {/* WHITE HOT CENTER (The Bulb effect) */}
+        <path {...dash} stroke="#ffffff" strokeWidth={thickness * 0.3} style={{ opacity: 0.9 }} />
+      </g>
+    );
+  };
+
+  return (
+    <>
+      {Array.from({ length: beams.count }, (_, i) =>
+        renderBeam(
+          colors[i % colors.length],
+          baseOffset - i * (beams.length + beams.gap) * perimeter,
+          i,
+        ),
+      )}
+    </>
+  );
+};
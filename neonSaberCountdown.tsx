@@ -6,25 +6,38 @@ import {
   interpolate,
   spring,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { fontFamilySchema, useFont } from './fonts';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const neonSaberCountdownSchema = z.object({
+  startNumber: z.number().int().min(0),
+  // Colors default to the active theme; set one to override it here only
+  primaryColor: zColor().optional(), // Blade glow
+  coreColor: zColor().optional(),    // Plasma core
+  fontSize: z.number().positive(),
+  fontFamily: fontFamilySchema.optional(), // Google Font or font file (see fonts.ts)
+});
+
 export const compositionConfig = {
   id: 'NeonSaberCountdown',
   durationInSeconds: 11, // 10 down to 0
   fps: 30,
   width: 3840,
   height: 2160,
+  schema: neonSaberCountdownSchema,
   defaultProps: {
     startNumber: 10,
-    color: '#00FFFF',      // Neon Cyan
-    coreColor: '#FFFFFF',  // White Core
     fontSize: 800,
   },
 };
 
-type NeonSaberCountdownProps = typeof compositionConfig.defaultProps;
+type NeonSaberCountdownProps = z.infer<typeof neonSaberCountdownSchema>;
 
 // =============================================================================
 // SUB-COMPONENT: SABER NUMBER
@@ -32,9 +45,11 @@ type NeonSaberCountdownProps = typeof compositionConfig.defaultProps;
 const SaberNumber: React.FC<{
   number: number;
   localFrame: number;
-  config: NeonSaberCountdownProps;
+  config: NeonSaberCountdownProps & { primaryColor: string; coreColor: string; fontFamily: string };
   fps: number;
 }> = ({ number, localFrame, config, fps }) => {
+  const { glowStrength } = useTheme();
+  const { fontFamily } = config;
 
   // --- 1. ENTRY PHYSICS (The "Slam") ---
   // A spring that goes 0 -> 1 quickly but smoothly
@@ -82,7 +97,7 @@ const SaberNumber: React.FC<{
 
   // --- STYLES ---
   const fontStyle = {
-    fontFamily: '"Kanit", "Arial Black", sans-serif',
+    fontFamily,
     fontWeight: 900,
     fontSize: config.fontSize,
     textAnchor: 'middle',
@@ -113,13 +128,14 @@ const SaberNumber: React.FC<{
         transform: `scale(${totalScale})`, // Apply the Zoom/Slam
         filter: `brightness(${flash})`,    // Apply the Flash
     }}>
+      {/* The viewBox scales the drawing to fit any frame size */}
       <svg width="100%" height="100%" viewBox="0 0 2000 1200" style={{ overflow: 'visible' }}>
         
         {/* Layer 1: Aura (The Atmosphere) - Heavily blurred */}
         <text 
           x="1000" y="600" 
           {...fontStyle} 
-          {...getStrokeProps(config.color, 60, 40, 0.5)} 
+          {...getStrokeProps(config.primaryColor, 60, 40 * glowStrength, 0.5)} 
         >
           {number}
         </text>
@@ -128,11 +144,11 @@ const SaberNumber: React.FC<{
         <text 
           x="1000" y="600" 
           {...fontStyle} 
-          {...getStrokeProps(config.color, 25, 10, 1)} 
+          {...getStrokeProps(config.primaryColor, 25, 10 * glowStrength, 1)} 
           // Add drop shadow for extra depth
           style={{
-             ...getStrokeProps(config.color, 25, 10, 1).style,
-             filter: `drop-shadow(0 0 30px ${config.color}) blur(${totalBlur}px)`
+             ...getStrokeProps(config.primaryColor, 25, 10 * glowStrength, 1).style,
+             filter: `drop-shadow(0 0 ${30 * glowStrength}px ${config.primaryColor}) blur(${totalBlur}px)`
           }}
         >
           {number}
@@ -164,15 +180,22 @@ const NeonSaberCountdown: React.FC<NeonSaberCountdownProps> = (props) => {
   const displayNumber = props.startNumber - currentSecondIndex;
   const localFrame = frame % fps;
 
-  if (displayNumber < 0) return <AbsoluteFill style={{ backgroundColor: '#000000' }} />;
+  // --- THEME (color props override it) ---
+  const { palette } = useTheme();
+  const background = useBackground();
+  const primaryColor = props.primaryColor ?? palette.primary;
+  const coreColor = props.coreColor ?? palette.text;
+  const { fontFamily } = useFont(props.fontFamily, [900]);
+
+  if (displayNumber < 0) return <AbsoluteFill style={{ backgroundColor: background.color }} />;
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#000000' }}>
+    <AbsoluteFill style={{ backgroundColor: background.color }}>
       <SaberNumber
         key={displayNumber} 
         number={displayNumber}
         localFrame={localFrame}
-        config={props}
+        config={{ ...props, primaryColor, coreColor, fontFamily }}
         fps={fps}
       />
     </AbsoluteFill>
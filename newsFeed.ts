@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { fetchPublicText, useDelayedFetch } from './delayedFetch';
+
+// =============================================================================
+// NEWS FEED FILES
+// =============================================================================
+// Producers drop a file into public/ and point `feedSrc` at it:
+// - JSON: an array of ticker items, or { headlines?: string[], tickerItems?: string[] }
+// - RSS / Atom: every <item> / <entry> title becomes a ticker item
+export interface NewsFeed {
+  headlines?: string[];
+  tickerItems?: string[];
+}
+
+const jsonFeedSchema = z.union([
+  z.array(z.string()),
+  z.object({
+    headlines: z.array(z.string()).optional(),
+    tickerItems: z.array(z.string()).optional(),
+  }),
+]);
+
+const parseRss = (xml: string): NewsFeed => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('not valid XML');
+  }
+  const titles = Array.from(doc.querySelectorAll('item > title, entry > title'))
+    .map((node) => node.textContent?.trim() ?? '')
+    .filter((title) => title !== '');
+  return { tickerItems: titles };
+};
+
+export const parseNewsFeed = (text: string): NewsFeed => {
+  if (text.trimStart().startsWith('<')) {
+    return parseRss(text);
+  }
+  const json = jsonFeedSchema.parse(JSON.parse(text));
+  return Array.isArray(json) ? { tickerItems: json } : json;
+};
+
+// =============================================================================
+// HOOK: LOAD A FEED FILE
+// =============================================================================
+// Holds rendering until the file is loaded so no frame shows the fallback text
+// (see delayedFetch.ts). An empty `src` means "no feed" and returns null.
+export const useNewsFeed = (src: string): NewsFeed | null => {
+  return useDelayedFetch(src, 'news feed', (file) => fetchPublicText(file).then(parseNewsFeed));
+};
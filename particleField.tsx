@@ -0,0 +1,522 @@
+import React, { useMemo } from 'react';
+import {
+  AbsoluteFill,
+  Img,
+  useCurrentFrame,
+  useVideoConfig,
+} from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import type { IconType } from 'react-icons';
+import {
+  FaBell,
+  FaBolt,
+  FaCircle,
+  FaCloud,
+  FaCoins,
+  FaCrown,
+  FaDollarSign,
+  FaFire,
+  FaGamepad,
+  FaGem,
+  FaGift,
+  FaHeart,
+  FaLeaf,
+  FaMoon,
+  FaMusic,
+  FaRocket,
+  FaSmile,
+  FaSnowflake,
+  FaSquareFull,
+  FaStar,
+  FaThumbsUp,
+  FaTrophy,
+} from 'react-icons/fa';
+import { IoSparkles } from 'react-icons/io5';
+import { MdCelebration } from 'react-icons/md';
+import { seededRandom, seedSchema } from './seededNoise';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { fontFamilySchema, useFont } from './fonts';
+import { isImageSrc, resolveMediaSrc } from './framedMedia';
+
+// =============================================================================
+// SPRITES
+// =============================================================================
+// What each particle looks like:
+//   icon  - a react-icons name from ICONS below, e.g. "FaHeart"
+//   emoji - drawn in its own colors
+//   text  - any characters, tinted with the palette
+//   image - a file in public/ or a URL
+// Only the icons listed here are bundled (whole react-icons packs would add
+// tens of MB to every render); import and list one to make it available.
+const ICONS: Record<string, IconType> = {
+  FaBell,
+  FaBolt,
+  FaCircle,
+  FaCloud,
+  FaCoins,
+  FaCrown,
+  FaDollarSign,
+  FaFire,
+  FaGamepad,
+  FaGem,
+  FaGift,
+  FaHeart,
+  FaLeaf,
+  FaMoon,
+  FaMusic,
+  FaRocket,
+  FaSmile,
+  FaSnowflake,
+  FaSquareFull,
+  FaStar,
+  FaThumbsUp,
+  FaTrophy,
+  IoSparkles,
+  MdCelebration,
+};
+
+const findIcon = (value: string): IconType | null => {
+  return Object.hasOwn(ICONS, value) ? ICONS[value] : null;
+};
+
+export const particleSpriteSchema = z.object({
+  kind: z.enum(['icon', 'emoji', 'text', 'image']),
+  value: z.string().min(1),
+}).refine((sprite) => sprite.kind !== 'icon' || findIcon(sprite.value) !== null, {
+  message: `Unknown icon. Available: ${Object.keys(ICONS).join(', ')}`,
+  path: ['value'],
+}).refine((sprite) => sprite.kind !== 'image' || isImageSrc(sprite.value), {
+  message: 'Images must be .png, .jpg, .gif, .webp, .avif or .svg files',
+  path: ['value'],
+});
+
+type ParticleSprite = z.infer<typeof particleSpriteSchema>;
+
+// =============================================================================
+// EMITTERS
+// =============================================================================
+// One-shot bursts fired at a given moment, from a point or along an edge, with
+// simple physics: launch velocity, gravity, drag, spin and a fade at the end of
+// each particle's life. Positions are computed in closed form from the time
+// since firing, so any frame renders on its own (no simulation state).
+//
+// `atSeconds` counts from the start of the clip, or with from: 'cue' from the
+// host component's own moment (SuccessCheckmark: the tick popping in,
+// SegmentedCountdown: the count running out). Unset optional fields use
+// EMITTER_DEFAULTS; speeds, sizes and gravity are 4K design pixels.
+const EMITTER_DEFAULTS = {
+  from: 'start',
+  source: 'point',
+  x: 0.5,
+  y: 0.5,
+  spread: 360,
+  minSpeed: 600,
+  maxSpeed: 1800,
+  gravity: 1600,
+  drag: 1,
+  lifetime: 2.5,
+  spin: 1.5,
+  minSize: 24,
+  maxSize: 56,
+} as const;
+
+export const particleEmitterSchema = z.object({
+  atSeconds: z.number().min(0),
+  count: z.number().int().min(1).max(1000),
+  from: z.enum(['start', 'cue']).optional(),
+  source: z.enum(['point', 'top', 'bottom', 'left', 'right']).optional(),
+  x: z.number().min(0).max(1).optional(), // 'point' only, share of the frame width
+  y: z.number().min(0).max(1).optional(), // 'point' only, share of the frame height
+  angle: z.number().optional(),           // Launch direction in degrees: 0 = right, -90 = up
+  spread: z.number().min(0).max(360).optional(), // Cone width around `angle`
+  minSpeed: z.number().min(0).optional(), // Pixels per second
+  maxSpeed: z.number().min(0).optional(),
+  gravity: z.number().optional(),         // Pixels per second²; positive pulls down
+  drag: z.number().min(0).optional(),     // Exponential slow-down per second
+  lifetime: z.number().positive().optional(), // Seconds until a particle has faded out
+  spin: z.number().min(0).optional(),     // Fastest spin in turns per second, either way
+  minSize: z.number().positive().optional(),
+  maxSize: z.number().positive().optional(),
+  sprites: z.array(particleSpriteSchema).min(1).optional(), // Defaults to the host's sprites or confetti
+  colors: z.array(zColor()).min(1).optional(),              // Defaults to the host's colors
+}).refine((emitter) =>
+  (emitter.minSpeed ?? EMITTER_DEFAULTS.minSpeed) <= (emitter.maxSpeed ?? EMITTER_DEFAULTS.maxSpeed), {
+  message: `minSpeed must not exceed maxSpeed (unset: ${EMITTER_DEFAULTS.minSpeed} and ${EMITTER_DEFAULTS.maxSpeed})`,
+  path: ['minSpeed'],
+}).refine((emitter) =>
+  (emitter.minSize ?? EMITTER_DEFAULTS.minSize) <= (emitter.maxSize ?? EMITTER_DEFAULTS.maxSize), {
+  message: `minSize must not exceed maxSize (unset: ${EMITTER_DEFAULTS.minSize} and ${EMITTER_DEFAULTS.maxSize})`,
+  path: ['minSize'],
+});
+
+export type ParticleEmitter = z.infer<typeof particleEmitterSchema>;
+
+const CONFETTI: ParticleSprite[] = [{ kind: 'icon', value: 'FaSquareFull' }, { kind: 'icon', value: 'FaCircle' }];
+
+// Edges launch inwards unless `angle` says otherwise
+const EDGE_ANGLES = { point: -90, top: 90, bottom: -90, left: 0, right: 180 };
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+// Sizes and sway are 4K design pixels. Every motion repeats a whole number of
+// times per clip (laps, sway cycles, spins), so the last frame always leads
+// back into the first: scripts/verifyLoops.ts checks the presets.
+export const particleFieldSchema = z.object({
+  sprites: z.array(particleSpriteSchema).min(1), // Each particle picks one
+  count: z.number().int().min(1).max(1000),
+  minSize: z.number().positive(),
+  maxSize: z.number().positive(),
+  colors: z.array(zColor()).min(1).optional(), // Defaults to the theme palette
+  // fall / rise: vertical, drift: left to right, burst: out from the center
+  direction: z.enum(['fall', 'rise', 'burst', 'drift']),
+  minLaps: z.number().int().min(1), // Trips across the frame per clip
+  maxLaps: z.number().int().min(1),
+  sway: z.number().min(0),          // Largest side-to-side swing
+  spin: z.number().int().min(0),    // Full turns per clip; 0 just rocks gently
+  opacity: z.number().min(0).max(1),
+  fontFamily: fontFamilySchema.optional(), // Text sprites only
+  // One-shot bursts on top of the field (see EMITTERS). 'cue' is the clip start
+  // here. A burst still in the air on the last frame breaks the seamless loop.
+  emitters: z.array(particleEmitterSchema),
+  seed: seedSchema,
+}).refine((props) => props.minSize <= props.maxSize, {
+  message: 'minSize must not exceed maxSize',
+  path: ['minSize'],
+}).refine((props) => props.minLaps <= props.maxLaps, {
+  message: 'minLaps must not exceed maxLaps',
+  path: ['minLaps'],
+});
+
+export type ParticleFieldProps = z.infer<typeof particleFieldSchema>;
+
+export const compositionConfig = {
+  id: 'ParticleField',
+  width: 3840,
+  height: 2160,
+  fps: 30,
+  durationInSeconds: 10,
+  loop: true,
+  schema: particleFieldSchema,
+  defaultProps: {
+    // Confetti
+    sprites: CONFETTI,
+    count: 120,
+    minSize: 24,
+    maxSize: 56,
+    direction: 'fall',
+    minLaps: 1,
+    maxLaps: 2,
+    sway: 120,
+    spin: 3,
+    opacity: 0.95,
+    emitters: [],
+    seed: 0,
+    background: { mode: 'transparent' }, // Overlay
+  },
+};
+
+// =============================================================================
+// HELPER: PARTICLE GENERATION
+// =============================================================================
+interface Particle {
+  id: number;
+  sprite: ParticleSprite;
+  x: number;      // Start position across the field, 0 to 1
+  y: number;      // Start position along the field, 0 to 1 (burst: life offset)
+  angle: number;  // Burst only: flight direction in radians
+  reach: number;  // Burst only: share of the half-diagonal it flies out
+  size: number;   // Design pixels
+  color: string;
+  laps: number;   // Whole number, for the seamless loop
+  swayAmplitude: number;
+  swayPhase: number;
+  rotationPhase: number;
+  spinDirection: 1 | -1;
+}
+
+const createParticles = (props: ParticleFieldProps, colors: string[]): Particle[] => {
+  const { seed } = props;
+  return Array.from({ length: props.count }, (_, i) => ({
+    id: i,
+    sprite: props.sprites[Math.floor(seededRandom(seed, i, 'sprite') * props.sprites.length)],
+    // Allow slightly outside the screen so particles drift in
+    x: seededRandom(seed, i, 'x') * 1.2 - 0.1,
+    y: seededRandom(seed, i, 'startY'),
+    angle: seededRandom(seed, i, 'angle') * Math.PI * 2,
+    reach: 0.4 + seededRandom(seed, i, 'reach') * 0.6,
+    size: props.minSize + seededRandom(seed, i, 'size') * (props.maxSize - props.minSize),
+    color: colors[Math.floor(seededRandom(seed, i, 'color') * colors.length)],
+    laps: props.minLaps + Math.floor(seededRandom(seed, i, 'laps') * (props.maxLaps - props.minLaps + 1)),
+    swayAmplitude: (0.33 + seededRandom(seed, i, 'swayAmplitude') * 0.67) * props.sway,
+    swayPhase: seededRandom(seed, i, 'swayPhase') * Math.PI * 2,
+    rotationPhase: seededRandom(seed, i, 'rotationPhase') * Math.PI * 2,
+    spinDirection: seededRandom(seed, i, 'spinDirection') < 0.5 ? -1 : 1,
+  }));
+};
+
+// =============================================================================
+// SUB-COMPONENT: SPRITE
+// =============================================================================
+const Sprite: React.FC<{ sprite: ParticleSprite; size: number; color: string; fontFamily: string }> = ({
+  sprite,
+  size,
+  color,
+  fontFamily,
+}) => {
+  if (sprite.kind === 'image') {
+    return <Img src={resolveMediaSrc(sprite.value)} style={{ width: size, height: size, objectFit: 'contain' }} />;
+  }
+  if (sprite.kind === 'icon') {
+    const Icon = findIcon(sprite.value)!;
+    return <Icon size={size} color={color} />;
+  }
+  return (
+    <span
+      style={{
+        display: 'block',
+        fontSize: size,
+        lineHeight: 1,
+        whiteSpace: 'nowrap',
+        // Emoji keep their own colors
+        color: sprite.kind === 'text' ? color : undefined,
+        fontFamily: sprite.kind === 'text' ? fontFamily : undefined,
+        fontWeight: 700,
+      }}
+    >
+      {sprite.value}
+    </span>
+  );
+};
+
+// =============================================================================
+// SUB-COMPONENT: PARTICLE BURSTS
+// =============================================================================
+interface BurstParticle {
+  id: string;
+  sprite: ParticleSprite;
+  color: string;
+  size: number;    // Design pixels
+  x0: number;      // Launch point, px
+  y0: number;
+  vx: number;      // Launch velocity, design px per second
+  vy: number;
+  turnsPerSecond: number;
+  rotationPhase: number; // Degrees
+}
+
+// Every emitter's particles, with `startSeconds` resolved against the cue.
+const createBursts = (
+  emitters: ParticleEmitter[],
+  options: { cueSeconds: number; sprites: ParticleSprite[]; colors: string[]; seed: number },
+  frame: { width: number; height: number },
+) => {
+  const { seed } = options;
+  return emitters.map((emitter, e) => {
+    const config = { ...EMITTER_DEFAULTS, ...emitter };
+    const source = config.source;
+    const angle = emitter.angle ?? EDGE_ANGLES[source];
+    const spread = emitter.spread ?? (source === 'point' ? EMITTER_DEFAULTS.spread : 60);
+    const sprites = emitter.sprites ?? options.sprites;
+    const colors = emitter.colors ?? options.colors;
+
+    const particles = Array.from({ length: config.count }, (_, i): BurstParticle => {
+      const r = (key: string) => seededRandom(seed, 'emitter', e, i, key);
+      // Launch point: the given point, or anywhere along the edge
+      const along = r('along');
+      const [x0, y0] = {
+        point: [config.x * frame.width, config.y * frame.height],
+        top: [along * frame.width, 0],
+        bottom: [along * frame.width, frame.height],
+        left: [0, along * frame.height],
+        right: [frame.width, along * frame.height],
+      }[source];
+      const direction = ((angle + (r('angle') - 0.5) * spread) * Math.PI) / 180;
+      const speed = config.minSpeed + r('speed') * Math.max(0, config.maxSpeed - config.minSpeed);
+
+      return {
+        id: `${e}-${i}`,
+        sprite: sprites[Math.floor(r('sprite') * sprites.length)],
+        color: colors[Math.floor(r('color') * colors.length)],
+        size: config.minSize + r('size') * Math.max(0, config.maxSize - config.minSize),
+        x0,
+        y0,
+        vx: Math.cos(direction) * speed,
+        vy: Math.sin(direction) * speed,
+        turnsPerSecond: (r('spin') * 2 - 1) * config.spin,
+        rotationPhase: r('rotation') * 360,
+      };
+    });
+
+    return {
+      startSeconds: (config.from === 'cue' ? options.cueSeconds : 0) + config.atSeconds,
+      lifetime: config.lifetime,
+      gravity: config.gravity,
+      drag: config.drag,
+      particles,
+    };
+  });
+};
+
+// Distance covered after `t` seconds at launch speed `v` (px/s) under
+// exponential drag `k` and constant acceleration `g`:
+// v(t) = g/k + (v - g/k) e^(-kt), integrated from 0 to t.
+const travel = (v: number, g: number, k: number, t: number) => {
+  if (k === 0) return v * t + (g * t * t) / 2;
+  const f = (1 - Math.exp(-k * t)) / k;
+  return v * f + (g * (t - f)) / k;
+};
+
+// Renders `emitters` over the host component. `cueSeconds` is the host's own
+// moment that emitters with from: 'cue' count from.
+export const ParticleBursts: React.FC<{
+  emitters: ParticleEmitter[];
+  cueSeconds: number;
+  seed: number;
+  sprites?: ParticleSprite[]; // For emitters without their own; confetti otherwise
+  colors?: string[];          // For emitters without their own; the theme palette otherwise
+  fontFamily?: string;        // For text sprites; the theme font otherwise
+}> = ({ emitters, cueSeconds, seed, sprites = CONFETTI, colors: colorsProp, fontFamily }) => {
+  const frame = useCurrentFrame();
+  const { width, height, fps } = useVideoConfig();
+  const theme = useTheme();
+  const scale = useScale();
+  const colors = colorsProp ?? [theme.palette.primary, theme.palette.secondary, theme.palette.accent];
+
+  const bursts = useMemo(
+    () => createBursts(emitters, { cueSeconds, sprites, colors, seed }, { width, height }),
+    [emitters, cueSeconds, sprites, colors.join(), seed, width, height],
+  );
+
+  const now = frame / fps;
+
+  return (
+    <AbsoluteFill style={{ pointerEvents: 'none' }}>
+      {bursts.flatMap((burst) => {
+        const t = now - burst.startSeconds;
+        if (t < 0 || t >= burst.lifetime) return [];
+
+        // Full strength for the first 60% of the life, then fade out
+        const opacity = Math.min(1, (1 - t / burst.lifetime) / 0.4);
+
+        return burst.particles.map((particle) => {
+          const x = particle.x0 + travel(particle.vx, 0, burst.drag, t) * scale;
+          const y = particle.y0 + travel(particle.vy, burst.gravity, burst.drag, t) * scale;
+          const rotation = particle.rotationPhase + particle.turnsPerSecond * 360 * t;
+
+          return (
+            <div
+              key={particle.id}
+              style={{
+                position: 'absolute',
+                left: 0,
+                top: 0,
+                transform: `translate(${x}px, ${y}px) translate(-50%, -50%) rotate(${rotation}deg)`,
+                opacity,
+              }}
+            >
+              <Sprite
+                sprite={particle.sprite}
+                size={particle.size * scale}
+                color={particle.color}
+                fontFamily={fontFamily ?? theme.fontFamily}
+              />
+            </div>
+          );
+        });
+      })}
+    </AbsoluteFill>
+  );
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+export const ParticleField: React.FC<ParticleFieldProps> = (props) => {
+  const frame = useCurrentFrame();
+  const { width, height, durationInFrames } = useVideoConfig();
+  const { palette } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const { fontFamily } = useFont(props.fontFamily, [700]);
+  const colors = props.colors ?? [palette.primary, palette.secondary, palette.accent];
+
+  // Memoized so random values stay consistent across frames
+  const particles = useMemo(
+    () => createParticles(props, colors),
+    [props.sprites, props.count, props.minSize, props.maxSize, props.minLaps, props.maxLaps,
+      props.sway, props.seed, colors.join()],
+  );
+
+  // Particles wrap this far outside the frame, so the wrap itself is never seen
+  const margin = (props.maxSize * 1.5 + 80) * scale;
+  const progress = frame / durationInFrames; // 0 to 1
+
+  return (
+    <AbsoluteFill style={{ backgroundColor: background.color }}>
+      {particles.map((particle) => {
+        const size = particle.size * scale;
+        const cycle = progress * Math.PI * 2;
+        const sway = Math.sin(cycle + particle.swayPhase) * particle.swayAmplitude * scale;
+        let x: number;
+        let y: number;
+        let opacity = props.opacity;
+
+        if (props.direction === 'burst') {
+          // Each particle flies out `laps` times per clip, fading to nothing
+          // before it restarts at the center
+          const life = (particle.y + progress * particle.laps) % 1;
+          const distance = (1 - (1 - life) ** 2) * particle.reach * Math.hypot(width, height) / 2;
+          x = width / 2 + Math.cos(particle.angle) * distance + sway * life;
+          y = height / 2 + Math.sin(particle.angle) * distance;
+          opacity *= Math.min(1, life * 10) * (1 - life);
+        } else if (props.direction === 'drift') {
+          // Left to right, swaying vertically
+          const loopWidth = width + margin * 2;
+          x = ((particle.y + progress * particle.laps) % 1) * loopWidth - margin;
+          y = particle.x * height + sway;
+        } else {
+          // fall / rise, swaying horizontally
+          const loopHeight = height + margin * 2;
+          const along = ((particle.y + progress * particle.laps) % 1) * loopHeight - margin;
+          x = particle.x * width + sway;
+          y = props.direction === 'fall' ? along : height - along;
+        }
+
+        // Rocking back and forth, plus whole turns when spin is set
+        const rotation = Math.sin(cycle + particle.rotationPhase) * 30
+          + progress * 360 * props.spin * particle.spinDirection;
+
+        return (
+          <div
+            key={particle.id}
+            style={{
+              position: 'absolute',
+              left: 0,
+              top: 0,
+              // Centered on (x, y)
+              transform: `translate(${x}px, ${y}px) translate(-50%, -50%) rotate(${rotation}deg)`,
+              opacity,
+            }}
+          >
+            <Sprite sprite={particle.sprite} size={size} color={particle.color} fontFamily={fontFamily} />
+          </div>
+        );
+      })}
+
+      <ParticleBursts
+        emitters={props.emitters}
+        cueSeconds={0}
+        seed={props.seed}
+        sprites={props.sprites}
+        colors={colors}
+        fontFamily={fontFamily}
+      />
+    </AbsoluteFill>
+  );
+};
+
+export default ParticleField;
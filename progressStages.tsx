@@ -0,0 +1,145 @@
+import React from 'react';
+import { interpolate } from 'remotion';
+import { z } from 'zod';
+import { CheckmarkIcon } from './successTick';
+
+// =============================================================================
+// TYPES & SCHEMAS
+// =============================================================================
+// Stepped progress: the bar is split into named stages, e.g.
+// Downloading -> Installing -> Configuring. Each stage ends at `untilPercent`,
+// so stages can have different lengths; the last one ends at 100.
+export const progressStageSchema = z.object({
+  label: z.string().min(1),
+  untilPercent: z.number().gt(0).max(100),
+});
+
+export type ProgressStage = z.infer<typeof progressStageSchema>;
+
+export const progressStagesSchema = z.array(progressStageSchema).refine(
+  (stages) => stages.every((stage, i) => i === 0 || stage.untilPercent > stages[i - 1].untilPercent)
+    && (stages.length === 0 || stages[stages.length - 1].untilPercent === 100),
+  { message: 'Stages must end at increasing percentages, and the last one at 100' },
+);
+
+export interface StageState {
+  index: number;          // Current stage; stages.length once every stage is done
+  label: string;          // Current stage's label (the last one's once all are done)
+  enteredAtFrame: number; // Frame the current stage began
+  completedAtFrames: (number | null)[]; // Per stage: frame it completed, null while unfinished
+}
+
+// =============================================================================
+// HELPER: STAGE STATE
+// =============================================================================
+// `progressAt` maps a frame to the bar's percent. A progress track may move
+// backwards, so a stage counts as completed from the start of the latest run
+// of frames at or past its end, found by scanning back from `frame`.
+export const getStageState = (
+  stages: ProgressStage[],
+  progressAt: (frame: number) => number,
+  frame: number,
+): StageState => {
+  const percent = progressAt(frame);
+  const completedAtFrames = stages.map((stage) => {
+    if (percent < stage.untilPercent) return null;
+    let start = frame;
+    while (start > 0 && progressAt(start - 1) >= stage.untilPercent) start--;
+    return start;
+  });
+
+  const current = completedAtFrames.findIndex((completedAt) => completedAt === null);
+  const index = current === -1 ? stages.length : current;
+  return {
+    index,
+    label: stages[Math.min(index, stages.length - 1)]?.label ?? '',
+    enteredAtFrame: index > 0 ? completedAtFrames[index - 1]! : 0,
+    completedAtFrames,
+  };
+};
+
+// Fade and lift for the stage label, restarted whenever the stage changes.
+export const getStageLabelEntry = (state: StageState, frame: number, fps: number) => {
+  const t = interpolate(frame - state.enteredAtFrame, [0, fps * 0.3], [0, 1], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+  });
+  return { opacity: t, translateY: (1 - t) * 20 }; // translateY in design pixels
+};
+
+// =============================================================================
+// SUB-COMPONENT: STAGE DIVIDERS
+// =============================================================================
+// Thin marks across the bar where one stage hands over to the next. Place
+// inside a positioned element whose vertical center is the bar's center.
+export const StageDividers: React.FC<{
+  stages: ProgressStage[];
+  color: string;
+  width: number;  // px
+  height: number; // px, usually the bar height
+}> = ({ stages, color, width, height }) => {
+  return (
+    <>
+      {stages.slice(0, -1).map((stage) => (
+        <div
+          key={stage.untilPercent}
+          style={{
+            position: 'absolute',
+            left: `${stage.untilPercent}%`,
+            top: '50%',
+            width,
+            height,
+            backgroundColor: color,
+            transform: 'translate(-50%, -50%)',
+            zIndex: 5, // Above the fill, below the knob
+          }}
+        />
+      ))}
+    </>
+  );
+};
+
+// =============================================================================
+// SUB-COMPONENT: STAGE CHECKMARKS
+// =============================================================================
+// A SuccessCheckmark under the end of every finished stage, drawn from the
+// frame the stage completed. `top` is measured from the positioned parent.
+export const StageChecks: React.FC<{
+  stages: ProgressStage[];
+  state: StageState;
+  frame: number;
+  fps: number;
+  color: string;
+  iconSize: number; // 4K design pixels
+  scale: number;
+  top: number;      // px
+}> = ({ stages, state, frame, fps, color, iconSize, scale, top }) => {
+  return (
+    <>
+      {stages.map((stage, i) => {
+        const completedAt = state.completedAtFrames[i];
+        if (completedAt === null) return null;
+        return (
+          <div
+            key={stage.untilPercent}
+            style={{
+              position: 'absolute',
+              left: `${stage.untilPercent}%`,
+              top,
+              transform: 'translateX(-50%)',
+            }}
+          >
+            <CheckmarkIcon
+              frame={frame - completedAt}
+              fps={fps}
+              iconSize={iconSize}
+              strokeWidth={iconSize * 0.1}
+              color={color}
+              scale={scale}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,93 @@
+import { Easing, interpolate } from 'remotion';
+import { z } from 'zod';
+import { fetchPublicText, useDelayedFetch } from './delayedFetch';
+
+// =============================================================================
+// TYPES & SCHEMAS
+// =============================================================================
+// A progress track replaces a bar's built-in linear fill with scripted
+// progress, e.g. real install or upload timings for a tutorial video.
+//
+// Each keyframe says "at `atSeconds` the bar shows `percent`". `easing` shapes
+// the segment leading into the keyframe:
+// - 'linear' (default), 'easeIn', 'easeOut', 'easeInOut'
+// - 'step': hold the previous value, then jump at `atSeconds`
+// Two keyframes with the same percent make a stall; two at the same time make
+// an instant jump. Before the first keyframe and after the last one the bar
+// holds that keyframe's value.
+export const progressEasingSchema = z.enum(['linear', 'easeIn', 'easeOut', 'easeInOut', 'step']);
+
+export type ProgressEasing = z.infer<typeof progressEasingSchema>;
+
+export const progressKeyframeSchema = z.object({
+  atSeconds: z.number().min(0),
+  percent: z.number().min(0).max(100),
+  easing: progressEasingSchema.optional(),
+});
+
+export type ProgressKeyframe = z.infer<typeof progressKeyframeSchema>;
+
+export const progressTrackSchema = z.array(progressKeyframeSchema).min(1).refine(
+  (track) => track.every((keyframe, i) => i === 0 || keyframe.atSeconds >= track[i - 1].atSeconds),
+  { message: 'Progress keyframes must be in time order (atSeconds may repeat but never decrease)' },
+);
+
+// =============================================================================
+// SAMPLING
+// =============================================================================
+const EASINGS: Record<Exclude<ProgressEasing, 'step'>, (t: number) => number> = {
+  linear: Easing.linear,
+  easeIn: Easing.in(Easing.cubic),
+  easeOut: Easing.out(Easing.cubic),
+  easeInOut: Easing.inOut(Easing.cubic),
+};
+
+// Percent (0 to 100) shown `seconds` into the clip.
+export const sampleProgressTrack = (track: ProgressKeyframe[], seconds: number): number => {
+  // The first keyframe still ahead; with repeated times this skips to the last
+  // of the group, so a same-time pair jumps instead of dividing by zero.
+  const nextIndex = track.findIndex((keyframe) => keyframe.atSeconds > seconds);
+  if (nextIndex === -1) return track[track.length - 1].percent;
+  if (nextIndex === 0) return track[0].percent;
+
+  const from = track[nextIndex - 1];
+  const to = track[nextIndex];
+  const easing = to.easing ?? 'linear';
+  if (easing === 'step') return from.percent;
+
+  return interpolate(seconds, [from.atSeconds, to.atSeconds], [from.percent, to.percent], {
+    easing: EASINGS[easing],
+  });
+};
+
+// =============================================================================
+// TRACK FILES
+// =============================================================================
+// A JSON file in public/, either the keyframe array itself or
+// { keyframes: [...] }, so exported logs can carry other fields alongside.
+const progressFileSchema = z.union([
+  progressTrackSchema,
+  z.object({ keyframes: progressTrackSchema }),
+]);
+
+export const parseProgressTrack = (text: string): ProgressKeyframe[] => {
+  const json = progressFileSchema.parse(JSON.parse(text));
+  return Array.isArray(json) ? json : json.keyframes;
+};
+
+// =============================================================================
+// HOOK: RESOLVE A BAR'S TRACK
+// =============================================================================
+// The file at `src` wins over the inline `track`; an empty `src` means "no
+// file". Holds rendering until the file is loaded so no frame shows the wrong
+// progress. Returns null when there is neither, so the bar keeps its own fill.
+export const useProgressTrack = (
+  track: ProgressKeyframe[] | undefined,
+  src: string,
+): ProgressKeyframe[] | null => {
+  const fileTrack = useDelayedFetch(src, 'progress track', (file) =>
+    fetchPublicText(file).then(parseProgressTrack));
+
+  if (src) return fileTrack;
+  return track ?? null;
+};
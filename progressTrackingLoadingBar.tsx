@@ -6,50 +6,104 @@ import {
   interpolate,
   Easing,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { fontFamilySchema, useFont } from './fonts';
+import { progressTrackSchema, sampleProgressTrack, useProgressTrack } from './progressTrack';
+import {
+  getStageLabelEntry,
+  getStageState,
+  progressStagesSchema,
+  StageChecks,
+  StageDividers,
+} from './progressStages';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const floatingSliderSchema = z.object({
+  barWidth: z.number().positive(),
+  barHeight: z.number().positive(),
+  knobSize: z.number().positive(),
+  // Colors and font default to the active theme; set one to override it here only
+  primaryColor: zColor().optional(),
+  secondaryColor: zColor().optional(),
+  trackColor: zColor().optional(),
+  fontFamily: fontFamilySchema.optional(), // Google Font or font file (see fonts.ts)
+  // Scripted progress (see progressTrack.ts); without it the bar fills evenly
+  progressTrack: progressTrackSchema.optional(),
+  progressTrackSrc: z.string(), // Optional JSON file in public/ that replaces progressTrack
+  // Stepped mode: named stages with dividers, a live stage label and a
+  // checkmark per finished stage (see progressStages.tsx). Empty = one plain bar.
+  stages: progressStagesSchema,
+});
+
 export const compositionConfig = {
   id: 'FloatingSlider',
   durationInSeconds: 10,
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: floatingSliderSchema,
   defaultProps: {
     barWidth: 2400,
     barHeight: 80,
     knobSize: 130, // Big "Dot"
-    primaryColor: '#ff0000', // Indigo/Purple
-    secondaryColor: '#ff4d4d', // Blue
-    trackColor: 'rgba(255, 255, 255, 0.15)', // Glassy background
-    fontFamily: 'Inter, Roboto, Helvetica, Arial, sans-serif',
+    progressTrackSrc: '',
+    stages: [],
+    theme: { preset: 'neon', palette: { primary: '#FF0000', secondary: '#FF4D4D' } }, // Red fill
   },
 };
 
-type SliderProps = typeof compositionConfig.defaultProps;
+type SliderProps = z.infer<typeof floatingSliderSchema>;
 
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
 export const FloatingSlider: React.FC<SliderProps> = ({
-  barWidth,
-  barHeight,
-  knobSize,
-  primaryColor,
-  secondaryColor,
-  trackColor,
-  fontFamily,
+  barWidth: designBarWidth,
+  barHeight: designBarHeight,
+  knobSize: designKnobSize,
+  primaryColor: primaryColorProp,
+  secondaryColor: secondaryColorProp,
+  trackColor: trackColorProp,
+  fontFamily: fontFamilyProp,
+  progressTrack,
+  progressTrackSrc,
+  stages,
 }) => {
   const frame = useCurrentFrame();
   const { fps, durationInFrames } = useVideoConfig();
+  const theme = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const barWidth = designBarWidth * scale;
+  const barHeight = designBarHeight * scale;
+  const knobSize = designKnobSize * scale;
+  const { palette, glowStrength } = theme;
+  const primaryColor = primaryColorProp ?? palette.primary;
+  const secondaryColor = secondaryColorProp ?? palette.secondary;
+  const trackColor = trackColorProp ?? mixColor(palette.text, 0.15); // Glassy background
+  const { fontFamily } = useFont(fontFamilyProp, [500, 900]);
+  const track = useProgressTrack(progressTrack, progressTrackSrc);
 
   // 1. PROGRESS LOGIC
-  // Smooth ease-in-out movement from 0 to 100
-  const progress = interpolate(frame, [0, durationInFrames - 30], [0, 100], {
-    easing: Easing.bezier(0.25, 0.1, 0.25, 1), // Smooth ease
-    extrapolateRight: 'clamp',
-  });
+  // Smooth ease-in-out movement from 0 to 100, unless a progress track drives it
+  const progressAt = (f: number) => track
+    ? sampleProgressTrack(track, f / fps)
+    : interpolate(f, [0, durationInFrames - 30], [0, 100], {
+        easing: Easing.bezier(0.25, 0.1, 0.25, 1), // Smooth ease
+        extrapolateRight: 'clamp',
+      });
+  const progress = progressAt(frame);
+
+  // Stepped mode: which stage we're in and when each one finished
+  const stepped = stages.length > 0;
+  const stageState = getStageState(stages, progressAt, frame);
+  const labelEntry = getStageLabelEntry(stageState, frame, fps);
 
   const percentDisplay = Math.floor(progress);
 
@@ -61,7 +115,7 @@ export const FloatingSlider: React.FC<SliderProps> = ({
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#000000',
+        backgroundColor: background.color,
         display: 'flex',
         alignItems: 'center',
         justifyContent: 'center',
@@ -89,8 +143,8 @@ export const FloatingSlider: React.FC<SliderProps> = ({
             height: barHeight,
             backgroundColor: trackColor,
             borderRadius: barHeight / 2,
-            backdropFilter: 'blur(10px)', // Glass effect
-            border: '2px solid rgba(255,255,255,0.1)',
+            backdropFilter: `blur(${10 * scale}px)`, // Glass effect
+            border: `${2 * scale}px solid rgba(255,255,255,0.1)`,
           }}
         />
 
@@ -105,12 +159,34 @@ export const FloatingSlider: React.FC<SliderProps> = ({
             height: barHeight,
             background: `linear-gradient(90deg, ${primaryColor}, ${secondaryColor})`,
             borderRadius: barHeight / 2,
-            boxShadow: `0 0 40px ${primaryColor}60`, // Glow behind the fill
+            boxShadow: `0 0 ${40 * glowStrength * scale}px ${mixColor(primaryColor, 0.38)}`, // Glow behind the fill
             // Prevent fill from overflowing the rounded corners at the start
             overflow: 'hidden', 
           }}
         />
 
+        {/* Stepped mode: stage boundaries across the bar, checkmarks below */}
+        {stepped && (
+          <>
+            <StageDividers
+              stages={stages}
+              color={background.color}
+              width={8 * scale}
+              height={barHeight}
+            />
+            <StageChecks
+              stages={stages}
+              state={stageState}
+              frame={frame}
+              fps={fps}
+              color={secondaryColor}
+              iconSize={90}
+              scale={scale}
+              top={knobSize + barHeight / 2 + 60 * scale}
+            />
+          </>
+        )}
+
         {/* =========================================
             LAYER 3: THE MOVING GROUP (Knob + Text)
             This div moves horizontally.
@@ -128,6 +204,7 @@ export const FloatingSlider: React.FC<SliderProps> = ({
             alignItems: 'center',
             justifyContent: 'center',
             willChange: 'transform',
+            zIndex: 10, // Above the stage dividers
           }}
         >
           
@@ -135,13 +212,13 @@ export const FloatingSlider: React.FC<SliderProps> = ({
           <div
             style={{
               position: 'absolute',
-              bottom: knobSize / 2 + 30, // Push it above the knob
+              bottom: knobSize / 2 + 30 * scale, // Push it above the knob
               fontFamily: fontFamily,
-              fontSize: 90,
+              fontSize: 90 * scale,
               fontWeight: 900,
-              color: 'white',
+              color: palette.text,
               whiteSpace: 'nowrap',
-              textShadow: '0 4px 20px rgba(0,0,0,0.5)',
+              textShadow: `0 ${4 * scale}px ${20 * scale}px rgba(0,0,0,0.5)`,
               // Center the text horizontally on the point
               transform: 'translateX(-50%)', 
             }}
@@ -149,6 +226,26 @@ export const FloatingSlider: React.FC<SliderProps> = ({
             {percentDisplay}%
           </div>
 
+          {/* Stepped mode: current stage, riding above the percentage */}
+          {stepped && (
+            <div
+              style={{
+                position: 'absolute',
+                bottom: knobSize / 2 + 140 * scale,
+                fontFamily,
+                fontSize: 48 * scale,
+                fontWeight: 500,
+                letterSpacing: 2 * scale,
+                color: secondaryColor,
+                whiteSpace: 'nowrap',
+                opacity: labelEntry.opacity,
+                transform: `translate(-50%, ${labelEntry.translateY * scale}px)`,
+              }}
+            >
+              {stageState.label}
+            </div>
+          )}
+
           {/* B. THE KNOB (The Dot) */}
           <div
             style={{
@@ -159,8 +256,8 @@ export const FloatingSlider: React.FC<SliderProps> = ({
               // Center the knob exactly on the point
               transform: 'translate(-50%, 0)', 
               boxShadow: `
-                0 0 0 8px rgba(255,255,255,0.2), 
-                0 10px 40px rgba(0,0,0,0.6)
+                0 0 0 ${8 * scale}px rgba(255,255,255,0.2), 
+                0 ${10 * scale}px ${40 * scale}px rgba(0,0,0,0.6)
               `,
               zIndex: 10,
             }}
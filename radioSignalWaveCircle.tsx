@@ -1,30 +1,108 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   AbsoluteFill,
+  Audio,
   useCurrentFrame,
   interpolate,
   useVideoConfig,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { detectOnsets, resolveAudioSrc, useAudioTrack } from './audioAnalysis';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const neonRadioWavesSchema = z.object({
+  waveCount: z.number().int().positive(),
+  waveLifeTime: z.number().int().positive(),
+  maxRadius: z.number().positive(),
+  primaryColor: zColor().optional(), // Defaults to the theme's primary color
+  strokeWidth: z.number().positive(),
+  // Audio-reactive mode: every beat/onset in the track launches a ring
+  audioSrc: z.string(),
+  playAudio: z.boolean(),
+  onsetSensitivity: z.number().min(0).max(1),
+});
+
 export const compositionConfig = {
   id: 'NeonRadioWaves',
-  durationInSeconds: 10,
+  durationInSeconds: 10,   // A whole number of ring spacings (waveLifeTime / waveCount)
+  loop: true,              // Without a track; onset rings follow the audio instead
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: neonRadioWavesSchema,
   defaultProps: {
     waveCount: 8,          // Number of simultaneous waves
     waveLifeTime: 120,     // How long one wave lasts (in frames) - 4 seconds
     maxRadius: 1000,       // How far they expand (pixels)
-    color: '#ff1100ff',      // Neon Green
     strokeWidth: 8,        // Thickness of the line
+    audioSrc: '',          // File in public/ or URL; '' = fixed cadence
+    playAudio: true,
+    onsetSensitivity: 0.12, // Lower = more rings on quieter hits
+    theme: { preset: 'neon', palette: { primary: '#FF1100' } }, // Neon red
   }
 };
 
-type WaveProps = typeof compositionConfig.defaultProps;
+type WaveProps = z.infer<typeof neonRadioWavesSchema>;
+
+// =============================================================================
+// SUB-COMPONENT: SINGLE WAVE
+// =============================================================================
+const Wave: React.FC<{
+  progress: number;  // 0 = just emitted, 1 = fully expanded
+  strength: number;  // 0..1, scales the brightness
+  maxRadius: number;
+  color: string;
+  strokeWidth: number;
+}> = ({ progress, strength, maxRadius, color, strokeWidth }) => {
+  const { glowStrength } = useTheme();
+  const glow = glowStrength * useScale();
+
+  // --- ANIMATION VALUES ---
+  
+  // 1. Expansion (Linear or slightly eased out)
+  const radius = interpolate(progress, [0, 1], [0, maxRadius]);
+  
+  // 2. Opacity (Fade in quick, fade out slow)
+  const opacity = interpolate(
+      progress, 
+      [0, 0.1, 0.8, 1], 
+      [0, 1, 1, 0] // Fade out at the very end
+  ) * strength;
+
+  // 3. Stroke Thinning (Optional: makes it look like energy dissipating)
+  const currentStroke = interpolate(progress, [0, 1], [strokeWidth, strokeWidth * 0.5]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        width: radius * 2,
+        height: radius * 2,
+        borderRadius: '50%',
+        border: `${currentStroke}px solid ${color}`,
+        opacity: opacity,
+        // DOUBLE GLOW for that intense "Neon" look
+        boxShadow: `
+          0 0 ${10 * glow}px ${color}, 
+          inset 0 0 ${10 * glow}px ${color},
+          0 0 ${30 * glow}px ${color}
+        `,
+        // Center the div perfectly
+        transform: 'translate(-50%, -50%)', 
+        top: '50%',
+        left: '50%',
+        // Optimization: Use will-change for smoother playback
+        willChange: 'transform, opacity',
+      }}
+    />
+  );
+};
 
 // =============================================================================
 // MAIN COMPONENT
@@ -32,79 +110,79 @@ type WaveProps = typeof compositionConfig.defaultProps;
 export const NeonRadioWaves: React.FC<WaveProps> = ({
   waveCount,
   waveLifeTime,
-  maxRadius,
-  color,
-  strokeWidth
+  maxRadius: designMaxRadius,
+  primaryColor,
+  strokeWidth: designStrokeWidth,
+  audioSrc,
+  playAudio,
+  onsetSensitivity,
 }) => {
   const frame = useCurrentFrame();
-  
-  // Create an array of IDs to map through
-  const waves = new Array(waveCount).fill(0).map((_, i) => i);
+  const { fps } = useVideoConfig();
+  const audioData = useAudioTrack(audioSrc);
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const maxRadius = designMaxRadius * scale;
+  const strokeWidth = designStrokeWidth * scale;
+  const glow = glowStrength * scale;
+  const color = primaryColor ?? palette.primary;
+
+  // Onsets for the whole track, found once
+  const onsets = useMemo(
+    () => (audioData ? detectOnsets(audioData, fps, { sensitivity: onsetSensitivity }) : []),
+    [audioData, fps, onsetSensitivity],
+  );
+
+  // Each wave: a progress from 0 to 1 plus a brightness
+  const waves = audioSrc !== ''
+    ? onsets
+        // Rings launched by onsets that are still expanding, newest waveCount only
+        .filter((onset) => onset.frame <= frame && frame - onset.frame < waveLifeTime)
+        .slice(-waveCount)
+        .map((onset) => ({
+          key: onset.frame,
+          progress: (frame - onset.frame) / waveLifeTime,
+          strength: interpolate(onset.strength, [0, 1], [0.4, 1]),
+        }))
+    : new Array(waveCount).fill(0).map((_, index) => {
+        // --- LOOP LOGIC ---
+        // Calculate a staggered start time for each wave
+        const offset = index * (waveLifeTime / waveCount);
+
+        // Progress from 0 to 1, looping repeatedly
+        return {
+          key: index,
+          progress: ((frame + offset) % waveLifeTime) / waveLifeTime,
+          strength: 1,
+        };
+      });
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#000000', justifyContent: 'center', alignItems: 'center' }}>
+    <AbsoluteFill style={{ backgroundColor: background.color, justifyContent: 'center', alignItems: 'center' }}>
+      {audioSrc !== '' && playAudio && <Audio src={resolveAudioSrc(audioSrc)} />}
       
       {/* Optional: Center Glow "Core" */}
       <div style={{
           position: 'absolute',
-          width: 20, height: 20,
+          width: 20 * scale, height: 20 * scale,
           borderRadius: '50%',
           background: color,
-          boxShadow: `0 0 50px 20px ${color}`,
+          boxShadow: `0 0 ${50 * glow}px ${20 * glow}px ${color}`,
           opacity: 0.5,
       }}/>
 
       {/* Render the expanding waves */}
-      {waves.map((index) => {
-        
-        // --- LOOP LOGIC ---
-        // Calculate a staggered start time for each wave
-        const offset = index * (waveLifeTime / waveCount);
-        
-        // Progress from 0 to 1, looping repeatedly
-        const progress = ((frame + offset) % waveLifeTime) / waveLifeTime;
-
-        // --- ANIMATION VALUES ---
-        
-        // 1. Expansion (Linear or slightly eased out)
-        const radius = interpolate(progress, [0, 1], [0, maxRadius]);
-        
-        // 2. Opacity (Fade in quick, fade out slow)
-        const opacity = interpolate(
-            progress, 
-            [0, 0.1, 0.8, 1], 
-            [0, 1, 1, 0] // Fade out at the very end
-        );
-
-        // 3. Stroke Thinning (Optional: makes it look like energy dissipating)
-        const currentStroke = interpolate(progress, [0, 1], [strokeWidth, strokeWidth * 0.5]);
-
-        return (
-          <div
-            key={index}
-            style={{
-              position: 'absolute',
-              width: radius * 2,
-              height: radius * 2,
-              borderRadius: '50%',
-              border: `${currentStroke}px solid ${color}`,
-              opacity: opacity,
-              // DOUBLE GLOW for that intense "Neon" look
-              boxShadow: `
-                0 0 10px ${color}, 
-                inset 0 0 10px ${color},
-                0 0 30px ${color}
-              `,
-              // Center the div perfectly
-              transform: 'translate(-50%, -50%)', 
-              top: '50%',
-              left: '50%',
-              // Optimization: Use will-change for smoother playback
-              willChange: 'transform, opacity',
-            }}
-          />
-        );
-      })}
+      {waves.map((wave) => (
+        <Wave
+          key={wave.key}
+          progress={wave.progress}
+          strength={wave.strength}
+          maxRadius={maxRadius}
+          color={color}
+          strokeWidth={strokeWidth}
+        />
+      ))}
     </AbsoluteFill>
   );
 };
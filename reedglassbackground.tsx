@@ -5,29 +5,37 @@ import {
   useVideoConfig,
   interpolate,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const reededGlassSchema = z.object({
+  stripCount: z.number().int().positive(),
+  glassBlur: z.number().min(0),
+  colors: z.array(zColor()).min(1).optional(), // Light colors; defaults to the theme palette
+});
+
 export const compositionConfig = {
   id: 'ReededGlassPink',
   durationInSeconds: 10,
+  loop: true,
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: reededGlassSchema,
   defaultProps: {
     stripCount: 40,        // Number of vertical glass "reeds"
     glassBlur: 25,         // How much the glass diffuses the light
-    colors: [              // The Cyberpunk/Magenta palette from the image
-      '#ff0055', // Hot Pink
-      '#ff00aa', // Magenta
-      '#8800ff', // Deep Purple
-      '#000000', // Deep Black
-    ],
+    theme: 'synthwave',    // Hot pink and electric blue light behind the glass
   },
 };
 
-type ReededGlassProps = typeof compositionConfig.defaultProps;
+type ReededGlassProps = z.infer<typeof reededGlassSchema>;
 
 // =============================================================================
 // SUB-COMPONENT: MOVING GRADIENT BACKGROUND
@@ -35,13 +43,15 @@ type ReededGlassProps = typeof compositionConfig.defaultProps;
 const GradientBackground: React.FC<{ colors: string[] }> = ({ colors }) => {
   const frame = useCurrentFrame();
   const { width, height, durationInFrames } = useVideoConfig();
+  const background = useBackground();
+  const layoutScale = useScale();
 
   // We create 3 large moving distinct blobs to simulate the light sources
   // appearing behind the glass.
   const blobs = useMemo(() => [0, 1, 2], []);
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#050005' }}>
+    <AbsoluteFill style={{ backgroundColor: background.color }}>
       {blobs.map((i) => {
         // Seamless circular motion
         const progress = frame / durationInFrames;
@@ -64,7 +74,7 @@ const GradientBackground: React.FC<{ colors: string[] }> = ({ colors }) => {
               borderRadius: '50%',
               background: `radial-gradient(circle, ${colors[i % colors.length]} 0%, transparent 70%)`,
               opacity: 0.8,
-              filter: 'blur(100px)', // High blur to blend them initially
+              filter: `blur(${100 * layoutScale}px)`, // High blur to blend them initially
             }}
           />
         );
@@ -88,9 +98,13 @@ const GradientBackground: React.FC<{ colors: string[] }> = ({ colors }) => {
 const ReededGlassEffect: React.FC<ReededGlassProps> = ({
   stripCount,
   glassBlur,
-  colors,
+  colors: colorsProp,
 }) => {
   const { width } = useVideoConfig();
+  const { palette } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const colors = colorsProp ?? [palette.primary, palette.secondary, palette.accent];
   
   // Calculate width of each glass strip
   const stripWidth = width / stripCount;
@@ -116,18 +130,18 @@ const ReededGlassEffect: React.FC<ReededGlassProps> = ({
               
               // --- THE REEDED GLASS PHYSICS ---
               // 1. Blur the background per strip to create distortion
-              backdropFilter: `blur(${glassBlur}px)`,
+              backdropFilter: `blur(${glassBlur * scale}px)`,
               
               // 2. The Cylindrical Shape (Gradient Overlay)
               // This makes the flat div look like a round tube
               background: 'linear-gradient(90deg, rgba(255,255,255,0.05) 0%, rgba(255,255,255,0.2) 20%, rgba(255,255,255,0) 50%, rgba(0,0,0,0.2) 80%, rgba(0,0,0,0.4) 100%)',
               
               // 3. Edges
-              borderLeft: '1px solid rgba(255,255,255,0.15)', // Highlight edge
-              borderRight: '1px solid rgba(0,0,0,0.3)',      // Shadow edge
+              borderLeft: `${scale}px solid rgba(255,255,255,0.15)`, // Highlight edge
+              borderRight: `${scale}px solid rgba(0,0,0,0.3)`,      // Shadow edge
               
               // 4. Inner refraction (Inset Shadow)
-              boxShadow: 'inset 10px 0 20px rgba(255,255,255,0.05)',
+              boxShadow: `inset ${10 * scale}px 0 ${20 * scale}px rgba(255,255,255,0.05)`,
               
               // 5. Contrast boost to make the colors pop through the glass
               // (Reeded glass tends to darken the image slightly where the glass is thick)
@@ -136,13 +150,15 @@ const ReededGlassEffect: React.FC<ReededGlassProps> = ({
         ))}
       </div>
 
-      {/* 3. Global Vignette/Polish */}
-      <AbsoluteFill
-        style={{
-            background: 'radial-gradient(circle, transparent 50%, rgba(0,0,0,0.6) 100%)',
-            pointerEvents: 'none',
-        }}
-      />
+      {/* 3. Global Vignette/Polish (solid backgrounds only: it would darken whatever is keyed in) */}
+      {background.isSolid && (
+        <AbsoluteFill
+          style={{
+              background: 'radial-gradient(circle, transparent 50%, rgba(0,0,0,0.6) 100%)',
+              pointerEvents: 'none',
+          }}
+        />
+      )}
     </AbsoluteFill>
   );
 };
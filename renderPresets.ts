@@ -0,0 +1,58 @@
+import type { Codec, PixelFormat, VideoImageFormat } from 'remotion';
+import type { Background } from './background';
+
+// =============================================================================
+// RENDER PRESETS
+// =============================================================================
+// Output settings by name. The alpha presets keep transparent pixels, so an
+// overlay rendered with `background: { mode: 'transparent' }` drops straight
+// into an editor timeline or an OBS media source.
+export interface RenderPreset {
+  codec: Codec;
+  imageFormat: VideoImageFormat;
+  pixelFormat: PixelFormat;
+  proResProfile?: '4444';
+  extension: string;
+  alpha: boolean;
+}
+
+export const RENDER_PRESETS = {
+  h264: {
+    codec: 'h264',
+    imageFormat: 'jpeg',
+    pixelFormat: 'yuv420p',
+    extension: 'mp4',
+    alpha: false,
+  },
+  'prores-4444': {
+    codec: 'prores',
+    imageFormat: 'png',          // JPEG frames have no alpha channel
+    pixelFormat: 'yuva444p10le',
+    proResProfile: '4444',
+    extension: 'mov',
+    alpha: true,
+  },
+  'webm-alpha': {
+    codec: 'vp9',
+    imageFormat: 'png',
+    pixelFormat: 'yuva420p',
+    extension: 'webm',
+    alpha: true,
+  },
+} satisfies Record<string, RenderPreset>;
+
+export type RenderPresetName = keyof typeof RENDER_PRESETS;
+
+// ProRes 4444 is what editors (Premiere, Resolve, Final Cut) import with alpha;
+// use 'webm-alpha' for browser sources.
+export const DEFAULT_ALPHA_PRESET: RenderPresetName = 'prores-4444';
+
+export const isRenderPresetName = (name: string): name is RenderPresetName => {
+  return Object.hasOwn(RENDER_PRESETS, name);
+};
+
+// The preset a composition renders with unless told otherwise: alpha output
+// for a transparent background, plain H.264 for everything else.
+export const getDefaultPreset = (background: Background | undefined): RenderPresetName => {
+  return background?.mode === 'transparent' ? DEFAULT_ALPHA_PRESET : 'h264';
+};
@@ -0,0 +1,49 @@
+import fs from 'fs';
+import path from 'path';
+
+// =============================================================================
+// DETERMINISM CHECK
+// =============================================================================
+// Fails if any composition source calls Math.random(). Frames must be a pure
+// function of props + frame number so that parallel and distributed render
+// workers produce identical output. Use seededNoise.ts instead.
+//
+//   npx tsx scripts/checkDeterminism.ts
+
+const ROOT = path.resolve(__dirname, '..');
+const SKIP_DIRS = new Set(['node_modules', 'scripts', '.git', 'out', 'public']);
+const FORBIDDEN = /\bMath\s*\.\s*random\s*\(/;
+
+const listSources = (dir: string): string[] => {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return SKIP_DIRS.has(entry.name) ? [] : listSources(fullPath);
+    }
+    return /\.(tsx?|jsx?)$/.test(entry.name) ? [fullPath] : [];
+  });
+};
+
+// Blank out comments (keeping line breaks) so documentation that mentions
+// Math.random() doesn't count as a use.
+const stripComments = (source: string) => {
+  return source
+    .replace(/\/\*[\s\S]*?\*\//g, (block) => block.replace(/[^\n]/g, ' '))
+    .replace(/(^|[^:])\/\/.*$/gm, '$1');
+};
+
+const violations = listSources(ROOT).flatMap((file) => {
+  const lines = stripComments(fs.readFileSync(file, 'utf-8')).split('\n');
+  return lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => FORBIDDEN.test(line))
+    .map(({ index }) => `${path.relative(ROOT, file)}:${index + 1}`);
+});
+
+if (violations.length > 0) {
+  console.error('Math.random() makes renders non-deterministic. Use seededRandom() from seededNoise.ts:');
+  violations.forEach((location) => console.error(`  ${location}`));
+  process.exit(1);
+}
+
+console.log('No Math.random() calls found in compositions.');
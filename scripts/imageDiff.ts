@@ -0,0 +1,60 @@
+import fs from 'fs';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+
+// =============================================================================
+// IMAGE DIFF
+// =============================================================================
+// PNG comparison used by visualRegression.ts. Pixels are compared with
+// pixelmatch's perceptual (YIQ) color distance, which ignores anti-aliasing and
+// tiny color shifts, then the share of differing pixels decides pass/fail.
+
+export interface DiffOptions {
+  threshold: number;    // Per-pixel color distance, 0 (exact) to 1 (anything matches)
+  maxDiffRatio: number; // Share of pixels allowed to differ, 0 to 1
+}
+
+export const DEFAULT_DIFF_OPTIONS: DiffOptions = {
+  threshold: 0.1,
+  maxDiffRatio: 0.001, // 0.1% of the frame
+};
+
+export type DiffResult =
+  | { kind: 'match'; diffPixels: number; diffRatio: number }
+  | { kind: 'mismatch'; diffPixels: number; diffRatio: number; diffImage: PNG }
+  | { kind: 'size-mismatch'; expected: string; actual: string };
+
+export const readPng = (file: string): PNG => {
+  return PNG.sync.read(fs.readFileSync(file));
+};
+
+export const writePng = (file: string, image: PNG) => {
+  fs.writeFileSync(file, PNG.sync.write(image));
+};
+
+// Compares `actual` against `expected`. A mismatch carries an image with the
+// differing pixels in red over a faded copy of the baseline.
+export const diffImages = (
+  expected: PNG,
+  actual: PNG,
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+): DiffResult => {
+  if (expected.width !== actual.width || expected.height !== actual.height) {
+    return {
+      kind: 'size-mismatch',
+      expected: `${expected.width}x${expected.height}`,
+      actual: `${actual.width}x${actual.height}`,
+    };
+  }
+
+  const { width, height } = expected;
+  const diffImage = new PNG({ width, height });
+  const diffPixels = pixelmatch(expected.data, actual.data, diffImage.data, width, height, {
+    threshold: options.threshold,
+  });
+  const diffRatio = diffPixels / (width * height);
+
+  return diffRatio > options.maxDiffRatio
+    ? { kind: 'mismatch', diffPixels, diffRatio, diffImage }
+    : { kind: 'match', diffPixels, diffRatio };
+};
@@ -0,0 +1,4 @@
+import { registerRoot } from 'remotion';
+import { LoopSeamRoot } from './loopSeamRoot';
+
+registerRoot(LoopSeamRoot);
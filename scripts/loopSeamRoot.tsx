@@ -0,0 +1,57 @@
+import React from 'react';
+import { Composition, Freeze, useVideoConfig } from 'remotion';
+import { compositions } from '../compositionRegistry';
+
+// =============================================================================
+// LOOP SEAM ROOT
+// =============================================================================
+// Root bundled by verifyLoops.ts (entry: loopSeamIndex.ts). Remotion won't
+// render past the last frame, so every looping composition is registered a
+// second time as "<id>-AfterLast", which shows the frame right after the last
+// one (frame durationInFrames) at every frame. Duration and size are
+// unchanged, so the component's own timing math is exactly what the real
+// render sees.
+export const AFTER_LAST_SUFFIX = '-AfterLast';
+
+const withFrameAfterLast = (Component: React.ComponentType<any>) => {
+  const FrameAfterLast: React.FC<Record<string, unknown>> = (props) => {
+    const { durationInFrames } = useVideoConfig();
+    return (
+      <Freeze frame={durationInFrames}>
+        <Component {...props} />
+      </Freeze>
+    );
+  };
+  return FrameAfterLast;
+};
+
+export const LoopSeamRoot: React.FC = () => {
+  return (
+    <>
+      {compositions
+        .filter((composition) => composition.loop)
+        .flatMap((composition) => [
+          { ...composition },
+          {
+            ...composition,
+            id: `${composition.id}${AFTER_LAST_SUFFIX}`,
+            component: withFrameAfterLast(composition.component),
+          },
+        ])
+        .map((composition) => (
+          <Composition
+            key={composition.id}
+            id={composition.id}
+            component={composition.component}
+            durationInFrames={composition.durationInFrames}
+            fps={composition.fps}
+            width={composition.width}
+            height={composition.height}
+            schema={composition.schema}
+            defaultProps={composition.defaultProps}
+            calculateMetadata={composition.calculateMetadata}
+          />
+        ))}
+    </>
+  );
+};
@@ -0,0 +1,412 @@
+import fs from 'fs';
+import path from 'path';
+import { bundle } from '@remotion/bundler';
+import { renderMedia, selectComposition } from '@remotion/renderer';
+import type { Codec } from '@remotion/renderer';
+import { BrowserSafeApis } from '@remotion/renderer/client';
+import type { z } from 'zod';
+import { getComposition, validateCompositionProps } from '../compositionRegistry';
+import type { Background } from '../background';
+import { getDefaultPreset, isRenderPresetName, RENDER_PRESETS } from '../renderPresets';
+import type { RenderPreset, RenderPresetName } from '../renderPresets';
+
+// =============================================================================
+// BATCH RENDER CLI
+// =============================================================================
+// Renders every combination of composition id x prop set to its own file.
+//
+//   npx tsx scripts/renderBatch.ts BreakingNews StreamGlitch --props jobs.csv --out out
+//
+// --props  JSON (an array of prop objects, or an object of name -> props) or CSV
+//          (one prop set per row, header row = prop names). A "name" field/column
+//          is used in the output file name instead of the row number; names
+//          must be unique.
+// --out    Output directory (default: out)
+// --preset h264, prores-4444 or webm-alpha (see renderPresets.ts). The alpha
+//          presets also default the background to transparent. Without a
+//          preset each job uses its composition's default: alpha output for
+//          a transparent background, h264 otherwise.
+// --codec  Any Remotion codec, with Remotion's default settings for it
+//
+// Prop sets are partial: missing fields fall back to the composition defaults.
+
+interface PropSet {
+  name: string;
+  props: Record<string, unknown>;
+  // CSV rows hold the raw cell strings; each job converts them for its own
+  // composition's schema (see parseCsvValue).
+  fromCsv?: boolean;
+}
+
+interface RenderJob {
+  compositionId: string;
+  propSet: PropSet;
+  // The prop set merged over the composition defaults, filled in by validation.
+  inputProps: Record<string, unknown>;
+  outputLocation: string;
+}
+
+// What a job is rendered with: a named preset, or a bare --codec.
+type Output =
+  | { kind: 'preset'; preset: RenderPresetName }
+  | { kind: 'codec'; codec: Codec };
+
+// Remotion's default container for each codec. Typed as a full Record, so a
+// codec added to Remotion fails the type check here instead of silently
+// landing in the wrong container.
+const CODEC_EXTENSIONS: Record<Codec, string> = {
+  h264: 'mp4',
+  h265: 'mp4',
+  vp8: 'webm',
+  vp9: 'webm',
+  av1: 'mp4',
+  mp3: 'mp3',
+  aac: 'aac',
+  wav: 'wav',
+  prores: 'mov',
+  'h264-mkv': 'mkv',
+  'h264-ts': 'ts',
+  gif: 'gif',
+};
+
+// =============================================================================
+// HELPER: ARGUMENT PARSING
+// =============================================================================
+const isCodec = (value: string): value is Codec => {
+  return (BrowserSafeApis.validCodecs as readonly string[]).includes(value);
+};
+
+const OPTION_NAMES = ['props', 'out', 'preset', 'codec'];
+
+const parseArgs = (argv: string[]) => {
+  const ids: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      // A misspelt option (--codc) would otherwise be ignored without a word
+      if (!OPTION_NAMES.includes(arg.slice(2))) {
+        throw new Error(`Unknown option ${arg}. Available: ${OPTION_NAMES.map((name) => `--${name}`).join(', ')}`);
+      }
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options[arg.slice(2)] = value;
+      i++;
+    } else {
+      ids.push(arg);
+    }
+  }
+
+  if (ids.length === 0) {
+    throw new Error('Pass at least one composition id, e.g. "BreakingNews".');
+  }
+
+  if (options.preset !== undefined && options.codec !== undefined) {
+    throw new Error('Pass either --preset or --codec, not both.');
+  }
+  if (options.preset !== undefined && !isRenderPresetName(options.preset)) {
+    const known = Object.keys(RENDER_PRESETS).join(', ');
+    throw new Error(`Unknown preset "${options.preset}". Available: ${known}`);
+  }
+  if (options.codec !== undefined && !isCodec(options.codec)) {
+    const known = BrowserSafeApis.validCodecs.join(', ');
+    throw new Error(`Unknown codec "${options.codec}". Available: ${known}`);
+  }
+
+  return {
+    ids,
+    propsFile: options.props,
+    outDir: options.out ?? 'out',
+    preset: options.preset as RenderPresetName | undefined,
+    codec: options.codec,
+  };
+};
+
+// =============================================================================
+// HELPER: OUTPUT SETTINGS
+// =============================================================================
+// Settings passed to renderMedia() for a job's output.
+const getOutputSettings = (output: Output) => {
+  if (output.kind === 'codec') {
+    return { codec: output.codec, extension: CODEC_EXTENSIONS[output.codec] };
+  }
+  const preset: RenderPreset = RENDER_PRESETS[output.preset];
+  return {
+    codec: preset.codec,
+    extension: preset.extension,
+    imageFormat: preset.imageFormat,
+    pixelFormat: preset.pixelFormat,
+    proResProfile: preset.proResProfile,
+  };
+};
+
+// =============================================================================
+// HELPER: PROP SET LOADING
+// =============================================================================
+// CSV cells are strings. Each one is converted to what its prop's schema
+// expects, so text props stay text ("01234", "007") while number, boolean and
+// array/object props get their JSON values. Anything that doesn't convert is
+// left as the string for the schema to report.
+const SCHEMA_WRAPPERS = new Set(['optional', 'nullable', 'default', 'readonly', 'catch', 'nonoptional']);
+const JSON_TYPES = new Set(['array', 'tuple', 'object', 'record', 'union']);
+
+const parseCsvValue = (field: z.ZodType | undefined, value: string): unknown => {
+  const trimmed = value.trim();
+  let schema = field;
+  let nullable = false;
+  while (schema && SCHEMA_WRAPPERS.has(schema.def.type)) {
+    nullable ||= schema.def.type === 'nullable';
+    schema = (schema.def as unknown as { innerType: z.ZodType }).innerType;
+  }
+
+  if (nullable && trimmed === 'null') return null;
+  const type = schema?.def.type;
+  if (type === 'number') {
+    return trimmed !== '' && !Number.isNaN(Number(trimmed)) ? Number(trimmed) : value;
+  }
+  if (type === 'boolean') {
+    return trimmed === 'true' ? true : trimmed === 'false' ? false : value;
+  }
+  if (type !== undefined && JSON_TYPES.has(type) && /^[[{]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+};
+
+const parseCsvProps = (schema: z.ZodObject, cells: Record<string, unknown>) => {
+  return Object.fromEntries(
+    Object.entries(cells).map(([key, cell]) => [key, parseCsvValue(schema.shape[key], String(cell))]),
+  );
+};
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes ("") and newlines in quotes.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+};
+
+const toPropSet = (props: Record<string, unknown>, index: number): PropSet => {
+  const { name, ...rest } = props;
+  return {
+    name: typeof name === 'string' && name !== '' ? name : String(index + 1),
+    props: rest,
+  };
+};
+
+const safeFileName = (value: string) => value.replace(/[^a-zA-Z0-9-_]+/g, '_');
+
+// Sets that end up with the same file name would overwrite each other's output.
+const assertUniqueNames = (propSets: PropSet[]) => {
+  const seen = new Map<string, string>();
+  for (const { name } of propSets) {
+    const fileName = safeFileName(name);
+    const other = seen.get(fileName);
+    if (other !== undefined) {
+      throw new Error(`Prop sets "${other}" and "${name}" would both render to "${fileName}". Give each a unique name.`);
+    }
+    seen.set(fileName, name);
+  }
+};
+
+const loadPropSets = (file: string | undefined): PropSet[] => {
+  // No file: one render with the default props.
+  if (!file) return [{ name: 'default', props: {} }];
+
+  const text = fs.readFileSync(file, 'utf-8');
+
+  if (path.extname(file).toLowerCase() === '.csv') {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error(`${file} has no header row.`);
+    return rows.map((row, index) => {
+      const props: Record<string, unknown> = {};
+      header.forEach((key, col) => {
+        const cell = row[col];
+        // Empty cells mean "use the default" rather than an empty string.
+        if (cell !== undefined && cell.trim() !== '') {
+          props[key.trim()] = key.trim() === 'name' ? cell.trim() : cell;
+        }
+      });
+      return { ...toPropSet(props, index), fromCsv: true };
+    });
+  }
+
+  const json = JSON.parse(text);
+  if (Array.isArray(json)) {
+    return json.map((props, index) => toPropSet(props, index));
+  }
+  return Object.entries(json as Record<string, Record<string, unknown>>).map(
+    ([name, props]) => ({ name, props }),
+  );
+};
+
+// =============================================================================
+// HELPER: SUMMARY
+// =============================================================================
+const reportFailures = (failures: { job: RenderJob; error: string }[]) => {
+  if (failures.length === 0) return;
+  console.error('\nFailed jobs:');
+  for (const { job, error } of failures) {
+    console.error(`- ${job.compositionId} / ${job.propSet.name}\n  ${error.replace(/\n/g, '\n  ')}`);
+  }
+  process.exitCode = 1;
+};
+
+// =============================================================================
+// MAIN
+// =============================================================================
+const main = async () => {
+  const { ids, propsFile, outDir, preset, codec } = parseArgs(process.argv.slice(2));
+  const propSets = loadPropSets(propsFile);
+  assertUniqueNames(propSets);
+
+  // Unknown ids are a usage error, so fail before doing any work.
+  ids.forEach((id) => getComposition(id));
+
+  // An alpha preset is only useful without a background, so make that the
+  // default; a prop set can still ask for one explicitly.
+  const presetProps: Record<string, unknown> = preset && RENDER_PRESETS[preset].alpha
+    ? { background: { mode: 'transparent' } }
+    : {};
+
+  const jobs: RenderJob[] = ids.flatMap((compositionId) =>
+    propSets.map((propSet) => ({
+      compositionId,
+      propSet: {
+        ...propSet,
+        props: {
+          ...presetProps,
+          ...(propSet.fromCsv
+            ? parseCsvProps(getComposition(compositionId).schema, propSet.props)
+            : propSet.props),
+        },
+      },
+      inputProps: {},
+      outputLocation: '', // Filled in once the props (and so the preset) are known
+    })),
+  );
+
+  const failures: { job: RenderJob; error: string }[] = [];
+  const outputs = new Map<RenderJob, Output>();
+
+  // Validate everything up front: a typo in row 40 shouldn't surface an hour in.
+  const validJobs = jobs.filter((job) => {
+    try {
+      job.inputProps = validateCompositionProps(job.compositionId, job.propSet.props);
+      const output: Output = codec
+        ? { kind: 'codec', codec }
+        : {
+            kind: 'preset',
+            preset: preset ?? getDefaultPreset(job.inputProps.background as Background),
+          };
+      outputs.set(job, output);
+      job.outputLocation = path.join(
+        outDir,
+        `${job.compositionId}-${safeFileName(job.propSet.name)}.${getOutputSettings(output).extension}`,
+      );
+      return true;
+    } catch (err) {
+      failures.push({ job, error: (err as Error).message });
+      return false;
+    }
+  });
+
+  // Nothing left to render: skip the bundle and report why.
+  if (validJobs.length === 0) {
+    console.error(`No job to render: ${failures.length}/${jobs.length} failed validation.`);
+    reportFailures(failures);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`Bundling project for ${validJobs.length} of ${jobs.length} job(s)...`);
+  const serveUrl = await bundle({
+    entryPoint: path.resolve(__dirname, '..', 'index.ts'),
+  });
+
+  fs.mkdirSync(outDir, { recursive: true });
+
+  for (const [index, job] of validJobs.entries()) {
+    const label = `[${index + 1}/${validJobs.length}] ${path.basename(job.outputLocation)}`;
+    const { extension, ...settings } = getOutputSettings(outputs.get(job)!);
+    let lastReported = -1;
+
+    try {
+      const composition = await selectComposition({
+        serveUrl,
+        id: job.compositionId,
+        inputProps: job.inputProps,
+      });
+
+      await renderMedia({
+        composition,
+        serveUrl,
+        ...settings,
+        outputLocation: job.outputLocation,
+        inputProps: job.inputProps,
+        onProgress: ({ progress }) => {
+          // Report in 10% steps to keep logs readable across many jobs.
+          const percent = Math.floor(progress * 10) * 10;
+          if (percent !== lastReported) {
+            lastReported = percent;
+            console.log(`${label} ${percent}%`);
+          }
+        },
+      });
+      console.log(`${label} done`);
+    } catch (err) {
+      console.error(`${label} FAILED: ${(err as Error).message}`);
+      failures.push({ job, error: (err as Error).message });
+    }
+  }
+
+  // --- SUMMARY ---
+  console.log(`\n${jobs.length - failures.length}/${jobs.length} job(s) rendered.`);
+  reportFailures(failures);
+};
+
+main().catch((err) => {
+  console.error((err as Error).message);
+  process.exit(1);
+});
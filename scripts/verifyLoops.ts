@@ -0,0 +1,160 @@
+import fs from 'fs';
+import path from 'path';
+import { bundle } from '@remotion/bundler';
+import { openBrowser, renderStill, selectComposition } from '@remotion/renderer';
+import { compositions, getComposition } from '../compositionRegistry';
+import { DEFAULT_DIFF_OPTIONS, diffImages, readPng, writePng } from './imageDiff';
+import type { DiffOptions } from './imageDiff';
+import { AFTER_LAST_SUFFIX } from './loopSeamRoot';
+
+// =============================================================================
+// LOOP VERIFIER
+// =============================================================================
+// Checks every composition whose config sets `loop: true`: frame 0 and the
+// frame right after the last one must match, otherwise the clip visibly pops
+// when it repeats. Renders use the default props.
+//
+//   npx tsx scripts/verifyLoops.ts                     # every looping composition
+//   npx tsx scripts/verifyLoops.ts AuroraMeshGradient  # just these ids
+//
+// --out        Output directory for the compared frames and diff images
+//              (default: out/loops)
+// --scale      Render scale (default: 0.25)
+// --threshold  Per-pixel color distance, 0 to 1 (default: 0.1)
+// --max-diff   Share of pixels allowed to differ, 0 to 1 (default: 0.001)
+
+const ROOT = path.resolve(__dirname, '..');
+
+// =============================================================================
+// HELPER: ARGUMENT PARSING
+// =============================================================================
+const parseArgs = (argv: string[]) => {
+  const ids: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options[arg.slice(2)] = value;
+      i++;
+    } else {
+      ids.push(arg);
+    }
+  }
+
+  const parseRatio = (name: string, fallback: number) => {
+    if (options[name] === undefined) return fallback;
+    const value = Number(options[name]);
+    if (Number.isNaN(value) || value < 0 || value > 1) {
+      throw new Error(`--${name} must be a number from 0 to 1.`);
+    }
+    return value;
+  };
+
+  const scale = options.scale === undefined ? 0.25 : Number(options.scale);
+  if (Number.isNaN(scale) || scale <= 0) {
+    throw new Error('--scale must be a positive number.');
+  }
+
+  const diffOptions: DiffOptions = {
+    threshold: parseRatio('threshold', DEFAULT_DIFF_OPTIONS.threshold),
+    maxDiffRatio: parseRatio('max-diff', DEFAULT_DIFF_OPTIONS.maxDiffRatio),
+  };
+
+  return {
+    ids: ids.length > 0 ? ids : compositions.filter((c) => c.loop).map((c) => c.id),
+    outDir: path.resolve(options.out ?? path.join('out', 'loops')),
+    scale,
+    diffOptions,
+  };
+};
+
+// =============================================================================
+// MAIN
+// =============================================================================
+const main = async () => {
+  const { ids, outDir, scale, diffOptions } = parseArgs(process.argv.slice(2));
+
+  // Unknown ids and compositions that don't claim to loop are usage errors.
+  ids.forEach((id) => {
+    if (!getComposition(id).loop) {
+      throw new Error(`"${id}" is not declared as looping (set loop: true in its config).`);
+    }
+  });
+
+  fs.mkdirSync(outDir, { recursive: true });
+
+  console.log(`Bundling project for ${ids.length} looping composition(s)...`);
+  const serveUrl = await bundle({ entryPoint: path.join(ROOT, 'scripts', 'loopSeamIndex.ts') });
+
+  // One browser for every still; software WebGL so no GPU is needed.
+  const browser = await openBrowser('chrome', {
+    chromiumOptions: { gl: 'swangle' },
+  });
+
+  const failures: { id: string; reason: string }[] = [];
+
+  // Frame 0 of "<id>" and frame 0 of "<id>-AfterLast" (frozen at frame N)
+  const renderFrame = async (id: string, output: string) => {
+    const composition = await selectComposition({ serveUrl, id, puppeteerInstance: browser });
+    await renderStill({
+      composition,
+      serveUrl,
+      frame: 0,
+      scale,
+      imageFormat: 'png',
+      output,
+      puppeteerInstance: browser,
+    });
+  };
+
+  try {
+    for (const id of ids) {
+      const firstFile = path.join(outDir, `${id}-first.png`);
+      const afterLastFile = path.join(outDir, `${id}-after-last.png`);
+
+      try {
+        await renderFrame(id, firstFile);
+        await renderFrame(`${id}${AFTER_LAST_SUFFIX}`, afterLastFile);
+
+        const diff = diffImages(readPng(firstFile), readPng(afterLastFile), diffOptions);
+        if (diff.kind === 'match') {
+          console.log(`${id}: seamless (${(diff.diffRatio * 100).toFixed(3)}% differs)`);
+        } else if (diff.kind === 'mismatch') {
+          const diffFile = path.join(outDir, `${id}-diff.png`);
+          writePng(diffFile, diff.diffImage);
+          const reason = `${(diff.diffRatio * 100).toFixed(3)}% of pixels differ, see ${path.relative(process.cwd(), diffFile)}`;
+          console.error(`${id}: POPS (${reason})`);
+          failures.push({ id, reason });
+        } else {
+          // Both stills come from the same composition, so this is a bug here.
+          throw new Error(`frame sizes differ: ${diff.expected} vs ${diff.actual}`);
+        }
+      } catch (err) {
+        console.error(`${id}: FAILED: ${(err as Error).message}`);
+        failures.push({ id, reason: (err as Error).message });
+      }
+    }
+  } finally {
+    await browser.close({ silent: true });
+  }
+
+  // --- SUMMARY ---
+  console.log(`\n${ids.length - failures.length}/${ids.length} loop(s) seamless.`);
+  if (failures.length > 0) {
+    console.error('\nFailed loops:');
+    for (const { id, reason } of failures) {
+      console.error(`- ${id}\n  ${reason.replace(/\n/g, '\n  ')}`);
+    }
+    process.exitCode = 1;
+  }
+};
+
+main().catch((err) => {
+  console.error((err as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,280 @@
+import fs from 'fs';
+import path from 'path';
+import { bundle } from '@remotion/bundler';
+import { openBrowser, renderStill, selectComposition } from '@remotion/renderer';
+import { compositions, getComposition } from '../compositionRegistry';
+import { DEFAULT_DIFF_OPTIONS, diffImages, readPng, writePng } from './imageDiff';
+import type { DiffOptions } from './imageDiff';
+
+// =============================================================================
+// VISUAL REGRESSION
+// =============================================================================
+// Renders key frames of every registered composition with its default props
+// and compares them against the PNG baselines in visual-baselines/.
+//
+//   npx tsx scripts/visualRegression.ts                  # every composition
+//   npx tsx scripts/visualRegression.ts BreakingNews     # just these ids
+//   npx tsx scripts/visualRegression.ts --update         # accept the renders as baselines
+//
+// A snapshot without a baseline (a new composition, or the very first run)
+// fails: only --update writes baselines, so a check never approves itself.
+// Record them with --update, look them over and commit the PNGs.
+//
+// --out        Report directory (default: out/visual). Holds the renders, the
+//              diff images and report.html.
+// --scale      Render scale (default: 0.25, so 4K compositions are 960x540)
+// --threshold  Per-pixel color distance, 0 to 1 (default: 0.1)
+// --max-diff   Share of pixels allowed to differ, 0 to 1 (default: 0.001)
+//
+// Rendering uses Chrome Headless Shell with software WebGL (swangle), so it
+// runs on a headless Linux box without a GPU. Baselines should be recorded on
+// the same platform they are checked on: font hinting differs between OSes.
+
+const ROOT = path.resolve(__dirname, '..');
+const BASELINE_DIR = path.join(ROOT, 'visual-baselines');
+
+interface Snapshot {
+  compositionId: string;
+  frame: number;
+  fileName: string;
+}
+
+type SnapshotResult =
+  | { kind: 'updated' }
+  | { kind: 'pass'; diffRatio: number }
+  | { kind: 'fail'; reason: string; diffFile?: string }
+  | { kind: 'error'; reason: string };
+
+// =============================================================================
+// HELPER: ARGUMENT PARSING
+// =============================================================================
+const parseArgs = (argv: string[]) => {
+  const ids: string[] = [];
+  const options: Record<string, string> = {};
+  let update = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--update') {
+      update = true;
+    } else if (arg.startsWith('--')) {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options[arg.slice(2)] = value;
+      i++;
+    } else {
+      ids.push(arg);
+    }
+  }
+
+  const parseRatio = (name: string, fallback: number) => {
+    if (options[name] === undefined) return fallback;
+    const value = Number(options[name]);
+    if (Number.isNaN(value) || value < 0 || value > 1) {
+      throw new Error(`--${name} must be a number from 0 to 1.`);
+    }
+    return value;
+  };
+
+  const scale = options.scale === undefined ? 0.25 : Number(options.scale);
+  if (Number.isNaN(scale) || scale <= 0) {
+    throw new Error('--scale must be a positive number.');
+  }
+
+  const diffOptions: DiffOptions = {
+    threshold: parseRatio('threshold', DEFAULT_DIFF_OPTIONS.threshold),
+    maxDiffRatio: parseRatio('max-diff', DEFAULT_DIFF_OPTIONS.maxDiffRatio),
+  };
+
+  return {
+    ids: ids.length > 0 ? ids : compositions.map((c) => c.id),
+    outDir: path.resolve(options.out ?? path.join('out', 'visual')),
+    scale,
+    update,
+    diffOptions,
+  };
+};
+
+// =============================================================================
+// HELPER: KEY FRAMES
+// =============================================================================
+// First, middle and last frame. Looping compositions also get the frames either
+// side of the loop seam: on repeat the last frame is followed by frame 0, so
+// frames 1 and last - 1 show whether motion carries on smoothly across it.
+// (verifyLoops.ts checks the seam itself.)
+const getKeyFrames = (durationInFrames: number, loop: boolean): number[] => {
+  const last = durationInFrames - 1;
+  const frames = loop
+    ? [0, 1, Math.floor(last / 2), last - 1, last]
+    : [0, Math.floor(last / 2), last];
+  return [...new Set(frames)]
+    .filter((frame) => frame >= 0 && frame <= last)
+    .sort((a, b) => a - b);
+};
+
+// =============================================================================
+// HELPER: REPORT
+// =============================================================================
+const escapeHtml = (value: string) => {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+// One row per snapshot, failures first, with baseline / render / diff side by side.
+const writeReport = (
+  outDir: string,
+  results: { snapshot: Snapshot; result: SnapshotResult }[],
+) => {
+  const image = (file: string) => fs.existsSync(file)
+    ? `<img src="${escapeHtml(path.relative(outDir, file))}">`
+    : '<span>missing</span>';
+  const isFailure = (result: SnapshotResult) => result.kind === 'fail' || result.kind === 'error';
+
+  const rows = [...results]
+    .sort((a, b) => Number(isFailure(b.result)) - Number(isFailure(a.result)))
+    .map(({ snapshot, result }) => {
+      const status = result.kind === 'pass'
+        ? `pass (${(result.diffRatio * 100).toFixed(3)}% differs)`
+        : result.kind === 'fail' || result.kind === 'error'
+          ? `${result.kind}: ${result.reason}`
+          : result.kind;
+      const diff = result.kind === 'fail' && result.diffFile ? image(result.diffFile) : '';
+      return `<tr class="${result.kind}">
+  <td>${escapeHtml(snapshot.compositionId)}<br>frame ${snapshot.frame}<br>${escapeHtml(status)}</td>
+  <td>${image(path.join(BASELINE_DIR, snapshot.fileName))}</td>
+  <td>${image(path.join(outDir, 'actual', snapshot.fileName))}</td>
+  <td>${diff}</td>
+</tr>`;
+    });
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Visual regression report</title>
+<style>
+  body { font-family: sans-serif; background: #111; color: #eee; }
+  td { vertical-align: top; padding: 8px; border-bottom: 1px solid #333; }
+  img { max-width: 480px; background: repeating-conic-gradient(#444 0 25%, #666 0 50%) 0 0 / 16px 16px; }
+  .fail td:first-child, .error td:first-child { color: #ff6b6b; }
+</style>
+</head>
+<body>
+<table>
+<tr><th></th><th>Baseline</th><th>Render</th><th>Diff</th></tr>
+${rows.join('\n')}
+</table>
+</body>
+</html>
+`;
+  const reportFile = path.join(outDir, 'report.html');
+  fs.writeFileSync(reportFile, html);
+  return reportFile;
+};
+
+// =============================================================================
+// MAIN
+// =============================================================================
+const main = async () => {
+  const { ids, outDir, scale, update, diffOptions } = parseArgs(process.argv.slice(2));
+
+  // Unknown ids are a usage error, so fail before doing any work.
+  ids.forEach((id) => getComposition(id));
+
+  const actualDir = path.join(outDir, 'actual');
+  const diffDir = path.join(outDir, 'diff');
+  fs.mkdirSync(actualDir, { recursive: true });
+  fs.mkdirSync(diffDir, { recursive: true });
+  if (update) {
+    fs.mkdirSync(BASELINE_DIR, { recursive: true });
+  }
+
+  console.log(`Bundling project for ${ids.length} composition(s)...`);
+  const serveUrl = await bundle({ entryPoint: path.join(ROOT, 'index.ts') });
+
+  // One browser for every still instead of one per render.
+  const browser = await openBrowser('chrome', {
+    chromiumOptions: { gl: 'swangle' },
+  });
+
+  const results: { snapshot: Snapshot; result: SnapshotResult }[] = [];
+
+  try {
+    for (const id of ids) {
+      // Default props: no inputProps, so the registered defaults apply.
+      const composition = await selectComposition({ serveUrl, id, puppeteerInstance: browser });
+
+      for (const frame of getKeyFrames(composition.durationInFrames, getComposition(id).loop)) {
+        const fileName = `${id}-${String(frame).padStart(4, '0')}.png`;
+        const snapshot: Snapshot = { compositionId: id, frame, fileName };
+        const actualFile = path.join(actualDir, fileName);
+        const baselineFile = path.join(BASELINE_DIR, fileName);
+        let result: SnapshotResult;
+
+        try {
+          await renderStill({
+            composition,
+            serveUrl,
+            frame,
+            scale,
+            imageFormat: 'png',
+            output: actualFile,
+            puppeteerInstance: browser,
+          });
+
+          if (update) {
+            fs.copyFileSync(actualFile, baselineFile);
+            result = { kind: 'updated' };
+          } else if (!fs.existsSync(baselineFile)) {
+            result = { kind: 'fail', reason: 'no baseline; record one with --update' };
+          } else {
+            const diff = diffImages(readPng(baselineFile), readPng(actualFile), diffOptions);
+            if (diff.kind === 'match') {
+              result = { kind: 'pass', diffRatio: diff.diffRatio };
+            } else if (diff.kind === 'size-mismatch') {
+              result = {
+                kind: 'fail',
+                reason: `size changed from ${diff.expected} to ${diff.actual}`,
+              };
+            } else {
+              const diffFile = path.join(diffDir, fileName);
+              writePng(diffFile, diff.diffImage);
+              result = {
+                kind: 'fail',
+                reason: `${(diff.diffRatio * 100).toFixed(3)}% of pixels differ`,
+                diffFile,
+              };
+            }
+          }
+        } catch (err) {
+          result = { kind: 'error', reason: (err as Error).message };
+        }
+
+        console.log(`${id} frame ${frame}: ${result.kind}${'reason' in result ? ` (${result.reason})` : ''}`);
+        results.push({ snapshot, result });
+      }
+    }
+  } finally {
+    await browser.close({ silent: true });
+  }
+
+  // --- SUMMARY ---
+  const reportFile = writeReport(outDir, results);
+  const failures = results.filter(({ result }) => result.kind === 'fail' || result.kind === 'error');
+
+  if (update) {
+    console.log(`\nRecorded ${results.length - failures.length} baseline(s) in ${path.relative(ROOT, BASELINE_DIR)}/.`);
+  } else {
+    console.log(`\n${results.length - failures.length}/${results.length} snapshot(s) match.`);
+  }
+  console.log(`Report: ${reportFile}`);
+  if (failures.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((err) => {
+  console.error((err as Error).message);
+  process.exit(1);
+});
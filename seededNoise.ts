@@ -0,0 +1,25 @@
+import { random } from 'remotion';
+import { noise2D } from '@remotion/noise';
+import { z } from 'zod';
+
+// =============================================================================
+// SEEDED RANDOMNESS
+// =============================================================================
+// Every random value in a composition must be a pure function of its props and
+// the frame, or parallel render workers disagree and loops stop matching.
+// Never use Math.random() in a composition; scripts/checkDeterminism.ts enforces it.
+
+// User-facing `seed` prop. Changing it reshuffles every random choice.
+export const seedSchema = z.number().int().min(0);
+
+// Uniform value in [0, 1). `keys` tell apart the different values drawn for the
+// same seed, e.g. seededRandom(seed, particleIndex, 'size').
+export const seededRandom = (seed: number, ...keys: (number | string)[]): number => {
+  return random(`${seed}:${keys.join(':')}`);
+};
+
+// Smooth noise in [-1, 1]: neighbouring x values give neighbouring results.
+// `channel` selects an independent noise stream for the same seed.
+export const seededNoise = (seed: number, x: number, channel = 0): number => {
+  return noise2D(seed, x, channel * 100);
+};
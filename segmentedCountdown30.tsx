@@ -6,28 +6,68 @@ import {
   interpolate,
   Easing,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { fontFamilySchema, useFont } from './fonts';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { formatClock } from './timeFormat';
+import { seedSchema } from './seededNoise';
+import { ParticleBursts, particleEmitterSchema } from './particleField';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const segmentedCountdownSchema = z.object({
+  ticksCount: z.number().int().positive(),
+  radius: z.number().positive(),
+  tickLength: z.number().positive(),
+  tickWidth: z.number().positive(),
+  // Colors and font default to the active theme; set one to override it here only
+  primaryColor: zColor().optional(), // Active segments and the number
+  trackColor: zColor().optional(),
+  fontFamily: fontFamilySchema.optional(), // Google Font or font file (see fonts.ts)
+  startSeconds: z.number().positive().nullable(), // null = the composition length
+  direction: z.enum(['down', 'up']),
+  format: z.enum(['seconds', 'mm:ss', 'hh:mm:ss']),
+  label: z.string(),
+  // What to show once the count is done: the final value, a blinking final
+  // value, or endText in place of the number
+  endState: z.enum(['hold', 'flash', 'text']),
+  endText: z.string(),
+  // Bursts over the countdown (see particleField.tsx); from: 'cue' counts from
+  // the moment the count runs out, or the last frame when the count fills the
+  // whole clip, e.g. { atSeconds: 0, count: 150, from: 'cue' }
+  emitters: z.array(particleEmitterSchema),
+  seed: seedSchema,
+});
+
 export const compositionConfig = {
   id: 'SegmentedCountdown',
   durationInSeconds: 30,
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: segmentedCountdownSchema,
   defaultProps: {
     ticksCount: 100,       // Higher count for a smoother, high-end look
     radius: 450,           // Radius of the ring
     tickLength: 60,        // Length of each segment
     tickWidth: 12,         // Thickness of each segment
-    activeColor: '#00F0FF', // Cyan Glow
-    trackColor: '#1a1a1a04', // Dark grey background track
-    fontFamily: 'Roboto, Inter, Helvetica, Arial, sans-serif',
+    startSeconds: null,
+    direction: 'down',
+    format: 'seconds',
+    label: 'SECONDS',
+    endState: 'hold',
+    endText: "WE'RE LIVE",
+    emitters: [],
+    seed: 0,
+    theme: { preset: 'neon', palette: { primary: '#00F0FF' } }, // Cyan glow
   },
 };
 
-type CountdownProps = typeof compositionConfig.defaultProps;
+type CountdownProps = z.infer<typeof segmentedCountdownSchema>;
 
 // =============================================================================
 // SUB-COMPONENT: TICK MARK
@@ -41,6 +81,9 @@ const Tick: React.FC<{
   color: string;
   glow: boolean;
 }> = ({ angle, opacity, radius, length, width, color, glow }) => {
+  const { glowStrength } = useTheme();
+  const scale = useScale();
+
   // Trigonometry to place ticks in a circle
   // We subtract 90 degrees so 0 starts at the top (12 o'clock)
   const rad = (angle - 90) * (Math.PI / 180);
@@ -60,7 +103,7 @@ const Tick: React.FC<{
         // Center the pivot point, then rotate, then push out by radius
         transform: `translate(-50%, -50%) translate(${x}px, ${y}px) rotate(${angle}deg)`,
         opacity: opacity,
-        boxShadow: glow ? `0 0 15px ${color}` : 'none',
+        boxShadow: glow ? `0 0 ${15 * glowStrength * scale}px ${color}` : 'none',
         // Slight transition to smooth out any frame jitter
         transition: 'opacity 0.1s linear', 
       }}
@@ -73,40 +116,78 @@ const Tick: React.FC<{
 // =============================================================================
 const SegmentedCountdown: React.FC<CountdownProps> = ({
   ticksCount,
-  radius,
-  tickLength,
-  tickWidth,
-  activeColor,
-  trackColor,
-  fontFamily,
+  radius: designRadius,
+  tickLength: designTickLength,
+  tickWidth: designTickWidth,
+  primaryColor: activeColorProp,
+  trackColor: trackColorProp,
+  fontFamily: fontFamilyProp,
+  startSeconds,
+  direction,
+  format,
+  label,
+  endState,
+  endText,
+  emitters,
+  seed,
 }) => {
   const frame = useCurrentFrame();
   const { fps, durationInFrames } = useVideoConfig();
+  const theme = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const radius = designRadius * scale;
+  const tickLength = designTickLength * scale;
+  const tickWidth = designTickWidth * scale;
+  const { palette, glowStrength } = theme;
+  const activeColor = activeColorProp ?? palette.primary;
+  const trackColor = trackColorProp ?? mixColor(palette.text, 0.08); // Faint background track
+  const { fontFamily } = useFont(fontFamilyProp, [400, 700]);
 
   // 1. Calculate Time
-  // Counts down from 30 to 0
-  const remainingSeconds = Math.ceil(
-    interpolate(frame, [0, durationInFrames], [30, 0], {
-      extrapolateLeft: 'clamp',
-      extrapolateRight: 'clamp',
-    })
-  );
+  // The count runs in real seconds from startSeconds to zero. Without one it
+  // fills the composition and reaches zero on the last frame, so the end state
+  // is rendered at least once; a shorter count has the end state fill the rest.
+  const totalSeconds = startSeconds ?? (durationInFrames - 1) / fps;
+  const elapsed = Math.min(frame / fps, totalSeconds);
+  const isFinished = frame / fps >= totalSeconds;
+  // A count longer than the clip never ends; cue the burst on the last frame
+  const cueSeconds = Math.min(totalSeconds, (durationInFrames - 1) / fps);
+
+  // Down: ceil so "1" stays up until the last second has fully run out.
+  // Up: floor so "1" appears once a full second has passed.
+  const displaySeconds = direction === 'down'
+    ? Math.ceil(totalSeconds - elapsed)
+    : Math.floor(elapsed);
+  const formattedTime = format === 'seconds'
+    ? String(displaySeconds)
+    : formatClock(displaySeconds, format);
 
-  // 2. Heartbeat Animation
+  // 2. End State
+  const secondsSinceEnd = frame / fps - totalSeconds;
+  const showEndText = isFinished && endState === 'text';
+  // Flash: blink twice per second between full and dim
+  const endOpacity = isFinished && endState === 'flash'
+    ? (Math.floor(secondsSinceEnd * 4) % 2 === 0 ? 1 : 0.15)
+    : 1;
+  const mainText = showEndText ? endText : formattedTime;
+
+  // Longer strings (clock formats, end text) shrink to stay inside the ring
+  const mainFontSize = Math.min(320 * scale, (radius * 1.6) / (mainText.length * 0.6));
+
+  // 3. Heartbeat Animation
   // Subtle pulse every second on the text
   const beat = (frame % fps) / fps;
   const textScale = interpolate(beat, [0, 0.1, 1], [1, 1.02, 1], {
     easing: Easing.out(Easing.quad),
   });
 
-  // 3. Ring Logic
-  // Calculate exactly "how many ticks" are left as a float (e.g., 45.5 ticks)
-  const progress = interpolate(frame, [0, durationInFrames], [1, 0], {
-    extrapolateLeft: 'clamp',
-    extrapolateRight: 'clamp',
-  });
+  // 4. Ring Logic
+  // Counting down empties the ring; counting up fills it.
+  const fractionDone = totalSeconds > 0 ? elapsed / totalSeconds : 1;
+  const progress = direction === 'down' ? 1 - fractionDone : fractionDone;
   
-  // The exact index of the "current" tick that is fading out
+  // The exact index of the "current" tick that is fading
   const currentTickThreshold = progress * ticksCount;
 
   // Pre-calculate angles
@@ -117,7 +198,7 @@ const SegmentedCountdown: React.FC<CountdownProps> = ({
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#000000',
+        backgroundColor: background.color,
         fontFamily: fontFamily,
         display: 'flex',            // FLEXBOX ENSURES PERFECT CENTERING
         justifyContent: 'center',
@@ -127,7 +208,7 @@ const SegmentedCountdown: React.FC<CountdownProps> = ({
       {/* CONTAINER: Holds both the ring and the text.
         We use a defined size box to ensure elements are relative to each other.
       */}
-      <div style={{ position: 'relative', width: radius * 2 + 200, height: radius * 2 + 200 }}>
+      <div style={{ position: 'relative', width: radius * 2 + 200 * scale, height: radius * 2 + 200 * scale }}>
         
         {/* LAYER 1: The Background Track (Dark Grey Ticks) */}
         {ticks.map((angle, i) => (
@@ -187,31 +268,41 @@ const SegmentedCountdown: React.FC<CountdownProps> = ({
         >
           <div
             style={{
-              fontSize: 320, // Large, readable font
+              fontSize: mainFontSize, // Large, readable font
               fontWeight: 700,
-              color: 'white',
+              color: palette.text,
               fontVariantNumeric: 'tabular-nums', // Prevents numbers jumping left/right
               lineHeight: 0.8, // Tighter vertical spacing
-              letterSpacing: -10,
-              textShadow: `0 0 40px ${activeColor}60`, // Soft text glow matching the ring
+              letterSpacing: -10 * scale,
+              textShadow: `0 0 ${40 * glowStrength * scale}px ${mixColor(activeColor, 0.38)}`, // Soft text glow matching the ring
+              whiteSpace: 'nowrap',
+              opacity: endOpacity,
             }}
           >
-            {remainingSeconds}
+            {mainText}
           </div>
           <div
             style={{
-              fontSize: 40,
+              fontSize: 40 * scale,
               fontWeight: 400,
               color: activeColor,
-              letterSpacing: 12,
+              letterSpacing: 12 * scale,
               opacity: 0.8,
-              marginTop: 20, // Space between number and label
+              marginTop: 20 * scale, // Space between number and label
             }}
           >
-            SECONDS
+            {showEndText ? '' : label}
           </div>
         </div>
       </div>
+
+      <ParticleBursts
+        emitters={emitters}
+        cueSeconds={cueSeconds}
+        seed={seed}
+        colors={[activeColor, palette.text]}
+        fontFamily={fontFamily}
+      />
     </AbsoluteFill>
   );
 };
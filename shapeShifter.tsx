@@ -1,53 +1,102 @@
 import React from 'react';
 import {
   AbsoluteFill,
+  Audio,
   useCurrentFrame,
   useVideoConfig,
   interpolate,
   Easing,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { getLoudness, getMeterLevels, resolveAudioSrc, useAudioTrack } from './audioAnalysis';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+
+export const shapeShifterSchema = z.object({
+  primaryColor: zColor().optional(), // Defaults to the theme's primary color
+  size: z.number().positive(),
+  thickness: z.number().positive(),
+  // Audio-reactive mode: loudness drives the shape instead of the breathing loop
+  audioSrc: z.string(),
+  playAudio: z.boolean(),
+  pulseScale: z.number().min(0), // Extra scale at full loudness (0.25 = +25%)
+});
 
 export const compositionConfig = {
   id: 'ShapeShifter',
   durationInFrames: 300, // 10 Seconds (30fps)
+  loop: true,            // Breathing mode; audio mode follows the track
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: shapeShifterSchema,
   defaultProps: {
-    color: '#ffffff', // Electric Purple
     size: 1200,       // Large size for presence
     thickness: 30,    // Thick, substantial border
+    audioSrc: '',     // File in public/ or URL; '' = breathing loop
+    playAudio: true,
+    pulseScale: 0.25,
+    theme: { preset: 'neon', palette: { primary: '#FFFFFF' } }, // White ring
   },
 };
 
-type Props = typeof compositionConfig.defaultProps;
+type Props = z.infer<typeof shapeShifterSchema>;
 
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
 const ShapeShifter: React.FC<Props> = ({
-  color,
-  size,
-  thickness,
+  primaryColor,
+  size: designSize,
+  thickness: designThickness,
+  audioSrc,
+  playAudio,
+  pulseScale,
 }) => {
   const frame = useCurrentFrame();
-  const { durationInFrames } = useVideoConfig();
+  const { durationInFrames, fps } = useVideoConfig();
   const halfDuration = durationInFrames / 2;
+  const audioData = useAudioTrack(audioSrc);
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const layoutScale = useScale();
+  const size = designSize * layoutScale;
+  const thickness = designThickness * layoutScale;
+  const color = primaryColor ?? palette.primary;
+
+  // --- 0. LOUDNESS (audio mode only) ---
+  // Snaps up on hits and eases back down over ~0.3s
+  const loudness = audioData
+    ? getMeterLevels((f) => [getLoudness(audioData, f, fps)], frame, {
+        decayFrames: Math.round(fps * 0.3),
+        peakHoldFrames: 0,
+        peakFallFrames: 0,
+      }).levels[0]
+    : 0;
 
   // --- 1. THE MORPHING (Breathing) ---
   // animate from Square (0% radius) to Circle (50% radius) and back to Square.
   // Easing.inOut(Easing.ease) creates the smooth, organic "breathing" feel where
   // it slows down slightly as it approaches the perfect square or circle shape.
-  const borderRadius = interpolate(
-    frame,
-    [0, halfDuration, durationInFrames],
-    [0, 50, 0], // Output percentage
-    {
-      easing: Easing.inOut(Easing.ease),
-      extrapolateLeft: 'clamp',
-      extrapolateRight: 'clamp',
-    }
-  );
+  // With audio, quiet passages stay square and loud ones round it off.
+  const borderRadius = audioSrc !== ''
+    ? interpolate(loudness, [0, 1], [0, 50], { easing: Easing.out(Easing.ease) })
+    : interpolate(
+        frame,
+        [0, halfDuration, durationInFrames],
+        [0, 50, 0], // Output percentage
+        {
+          easing: Easing.inOut(Easing.ease),
+          extrapolateLeft: 'clamp',
+          extrapolateRight: 'clamp',
+        }
+      );
+
+  // Loudness also pushes the shape outward and brightens the glow
+  const scale = 1 + loudness * pulseScale;
+  const glow = (audioSrc !== '' ? interpolate(loudness, [0, 1], [0.5, 1.6]) : 1) * glowStrength * layoutScale;
 
   // --- 2. THE ROTATION (Steady) ---
   // A constant, linear spin that completes exactly one revolution per loop.
@@ -66,13 +115,13 @@ const ShapeShifter: React.FC<Props> = ({
     // Apply the animated border radius
     borderRadius: `${borderRadius}%`,
     // Apply the steady rotation
-    transform: `rotate(${rotation}deg)`,
+    transform: `rotate(${rotation}deg) scale(${scale})`,
     // The "Electric" Glow: Layered shadows for depth and intensity
     boxShadow: `
-      0 0 20px ${color},      /* Inner tight glow */
-      0 0 60px ${color},      /* Middle soft glow */
-      0 0 150px ${color}40,   /* Outer atmospheric bloom (lower opacity) */
-      inset 0 0 30px ${color} /* Inward glow for dimensionality */
+      0 0 ${20 * glow}px ${color},      /* Inner tight glow */
+      0 0 ${60 * glow}px ${color},      /* Middle soft glow */
+      0 0 ${150 * glow}px ${mixColor(color, 0.25)},   /* Outer atmospheric bloom (lower opacity) */
+      inset 0 0 ${30 * glow}px ${color} /* Inward glow for dimensionality */
     `,
     // Ensure the rotation happens around the exact center
     transformOrigin: 'center center',
@@ -82,12 +131,13 @@ const ShapeShifter: React.FC<Props> = ({
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#000000', // Deep black background for maximum contrast
+        backgroundColor: background.color,
         display: 'flex',
         justifyContent: 'center',
         alignItems: 'center',
       }}
     >
+      {audioSrc !== '' && playAudio && <Audio src={resolveAudioSrc(audioSrc)} />}
       <div style={shapeStyle} />
     </AbsoluteFill>
   );
@@ -0,0 +1,174 @@
+import React from 'react';
+import {
+  AbsoluteFill,
+  useCurrentFrame,
+  useVideoConfig,
+  interpolate,
+} from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { formatClock } from './timeFormat';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { fontFamilySchema, useFont } from './fonts';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+// Shared by the NeonLiveIndicator and NeonRecIndicator compositions, which only
+// differ in their default props.
+// Colors and font default to the active theme; set one to override it here only.
+export const statusPillSchema = z.object({
+  label: z.string(),
+  primaryColor: zColor().optional(),
+  pulseSeconds: z.number().positive(), // Length of one fade out / fade in cycle
+  width: z.number().positive(),    // Minimum pill width; grows to fit the content
+  dotGap: z.number().min(0),       // Space between the dot and the label
+  // Elapsed-time counter shown after the label
+  showElapsed: z.boolean(),
+  elapsedStartSeconds: z.number().min(0), // Counter value at frame 0
+  elapsedFormat: z.enum(['mm:ss', 'hh:mm:ss']),
+  // 'paused' swaps the label and color, stops the pulse and freezes the counter
+  state: z.enum(['onAir', 'paused']),
+  pausedLabel: z.string(),
+  accentColor: zColor().optional(),  // Paused color
+  fontFamily: fontFamilySchema.optional(), // Google Font or font file (see fonts.ts)
+});
+
+export type StatusPillProps = z.infer<typeof statusPillSchema>;
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+export const StatusPill: React.FC<StatusPillProps> = ({
+  label,
+  primaryColor,
+  pulseSeconds,
+  width,
+  dotGap,
+  showElapsed,
+  elapsedStartSeconds,
+  elapsedFormat,
+  state,
+  pausedLabel,
+  accentColor,
+  fontFamily: fontFamilyProp,
+}) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const { palette, glowStrength } = useTheme();
+  const { fontFamily } = useFont(fontFamilyProp, [400, 700]);
+  const background = useBackground();
+  const scale = useScale();
+  const glow = glowStrength * scale;
+
+  const isPaused = state === 'paused';
+  const activeColor = isPaused
+    ? accentColor ?? palette.accent
+    : primaryColor ?? palette.primary;
+  // Derive the glow from the active color so any color choice keeps its halo
+  const glowColor = `color-mix(in srgb, ${activeColor} 80%, transparent)`;
+
+  // --- Animation Logic ---
+  // Sine pulse between 30% and 100% opacity; a paused pill holds steady.
+  const t = (frame / (pulseSeconds * fps)) * Math.PI * 2;
+  const opacity = isPaused ? 0.6 : interpolate(Math.sin(t), [-1, 1], [0.3, 1.0]);
+
+  // The counter stops advancing while paused
+  const elapsedSeconds = elapsedStartSeconds + (isPaused ? 0 : frame / fps);
+
+  // --- Styles ---
+
+  const containerStyle: React.CSSProperties = {
+    backgroundColor: background.color,
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+  };
+
+  const pillStyle: React.CSSProperties = {
+    // Layout
+    display: 'flex',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+
+    // Dimensions
+    minWidth: `${width * scale}px`,
+    padding: `${80 * scale}px ${120 * scale}px`,
+    boxSizing: 'border-box',
+
+    // Border & Shape
+    border: `${25 * scale}px solid ${activeColor}`,
+    borderRadius: `${500 * scale}px`,
+
+    // Appearance
+    backgroundColor: 'transparent',
+    opacity: opacity,
+
+    // Intense Massive Glow
+    boxShadow: `
+      0 0 ${40 * glow}px ${glowColor},
+      0 0 ${100 * glow}px ${glowColor},
+      inset 0 0 ${40 * glow}px ${glowColor}
+    `,
+  };
+
+  const dotStyle: React.CSSProperties = {
+    width: `${200 * scale}px`,
+    height: `${200 * scale}px`,
+    flexShrink: 0,
+    backgroundColor: activeColor,
+    // Paused shows a hollow ring instead of a solid dot
+    border: isPaused ? `${30 * scale}px solid ${activeColor}` : 'none',
+    backgroundClip: isPaused ? 'content-box' : undefined,
+    boxSizing: 'border-box',
+    borderRadius: '50%',
+    marginRight: `${dotGap * scale}px`,
+    boxShadow: `0 0 ${50 * glow}px ${glowColor}`,
+  };
+
+  const textStyle: React.CSSProperties = {
+    fontFamily,
+    fontWeight: 'bold',
+    fontSize: `${400 * scale}px`,
+    color: activeColor,
+    letterSpacing: `${20 * scale}px`,
+    lineHeight: '0.8',
+    whiteSpace: 'nowrap',
+    // Text Glow
+    textShadow: `
+      0 0 ${20 * glow}px ${glowColor},
+      0 0 ${80 * glow}px ${glowColor}
+    `,
+  };
+
+  const elapsedStyle: React.CSSProperties = {
+    ...textStyle,
+    fontWeight: 'normal',
+    fontSize: `${240 * scale}px`,
+    letterSpacing: `${10 * scale}px`,
+    fontVariantNumeric: 'tabular-nums', // Keep digits from jittering as they change
+    marginLeft: `${dotGap * scale}px`,
+  };
+
+  return (
+    <AbsoluteFill style={containerStyle}>
+      <div style={pillStyle}>
+        {/* The Status Dot */}
+        <div style={dotStyle} />
+
+        {/* The Label */}
+        <span style={textStyle}>{isPaused ? pausedLabel : label}</span>
+
+        {/* Optional Elapsed Counter */}
+        {showElapsed && (
+          <span style={elapsedStyle}>{formatClock(elapsedSeconds, elapsedFormat)}</span>
+        )}
+      </div>
+    </AbsoluteFill>
+  );
+};
+
+export default StatusPill;
@@ -3,169 +3,146 @@ import {
   AbsoluteFill,
   useCurrentFrame,
   useVideoConfig,
-  interpolate,
 } from 'remotion';
+import { z } from 'zod';
+import { getBoundingBox, translatePath } from '@remotion/paths';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import {
+  borderShapeSchema,
+  ChasingBeams,
+  getBorderPath,
+  isDrawablePath,
+  neonBeamsSchema,
+} from './neonBorder';
+import { FramedMedia, mediaFitSchema, mediaSrcSchema } from './framedMedia';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const dualNeonChaseSchema = z.object({
+  // Outline (see neonBorder.tsx). Insets are the margins between the frame
+  // edges and the shape; all sizes are 4K design pixels.
+  shape: borderShapeSchema,
+  insetX: z.number().min(0),
+  insetY: z.number().min(0),
+  cornerRadius: z.number().min(0), // 'rect' only
+  path: z.string(),                // 'path' only: SVG path data, fitted inside the insets
+  // Optional video or image shown inside the border, clipped to its shape
+  src: mediaSrcSchema,
+  fit: mediaFitSchema,
+  beams: neonBeamsSchema,
+  thickness: z.number().positive(),
+  glowIntensity: z.number().min(0),
+}).refine((props) => props.shape !== 'path' || isDrawablePath(props.path), {
+  message: 'shape "path" needs valid SVG path data in `path`',
+  path: ['path'],
+});
+
 export const compositionConfig = {
   id: 'DualNeonChase',
   durationInSeconds: 10,
+  loop: true,
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: dualNeonChaseSchema,
   defaultProps: {
-    color1: '#39FF14', // Electric Cyan (Left side of image)
-    color2: '#39FF14', // Hot Magenta (Right side of image)
+    shape: 'rect',
+    insetX: 220,       // 3400x1900 border on the 4K canvas
+    insetY: 130,
+    cornerRadius: 60,
+    path: '',
+    src: '',
+    fit: 'cover',
+    beams: {
+      count: 2,        // Two lines chasing each other...
+      length: 0.4,     // ...each covering 40% of the border...
+      gap: 0.1,        // ...with 10% gaps
+      direction: 'forward',
+      colors: [],      // Theme primary and secondary
+    },
     thickness: 15,     // Thickness of the neon tube
     glowIntensity: 1,
+    theme: { preset: 'neon', palette: { primary: '#39FF14', secondary: '#39FF14' } }, // Both beams electric green
   },
 };
 
-type Props = typeof compositionConfig.defaultProps;
+type Props = z.infer<typeof dualNeonChaseSchema>;
 
 // =============================================================================
 // COMPONENT
 // =============================================================================
 const DualNeonChase: React.FC<Props> = ({
-  color1,
-  color2,
-  thickness,
+  shape,
+  insetX,
+  insetY,
+  cornerRadius,
+  path,
+  src,
+  fit,
+  beams,
+  thickness: designThickness,
   glowIntensity,
 }) => {
   const frame = useCurrentFrame();
   const { width, height, durationInFrames } = useVideoConfig();
-
-  // --- 1. GEOMETRY (Rounded Rectangle) ---
-  // We define a rectangle slightly smaller than 4K to fit the glow safely
-  const rectW = 3400;
-  const rectH = 1900;
-  const cornerRadius = 60; // Rounded corners as seen in image
-
-  const startX = (width - rectW) / 2;
-  const startY = (height - rectH) / 2;
-
-  // Generate SVG Path for rounded rectangle
-  // Move to top-left (after radius), Line to top-right, Arc, Line to bottom-right...
-  const pathData = useMemo(() => {
-    const l = startX;
-    const t = startY;
-    const r = startX + rectW;
-    const b = startY + rectH;
-    const rad = cornerRadius;
-
-    return `
-      M ${l + rad} ${t}
-      L ${r - rad} ${t}
-      A ${rad} ${rad} 0 0 1 ${r} ${t + rad}
-      L ${r} ${b - rad}
-      A ${rad} ${rad} 0 0 1 ${r - rad} ${b}
-      L ${l + rad} ${b}
-      A ${rad} ${rad} 0 0 1 ${l} ${b - rad}
-      L ${l} ${t + rad}
-      A ${rad} ${rad} 0 0 1 ${l + rad} ${t}
-      Z
-    `;
-  }, [startX, startY, rectW, rectH, cornerRadius]);
-
-  // Calculate Perimeter for Dash Math
-  // (Width - 2r) * 2 + (Height - 2r) * 2 + (2 * PI * r)
-  const perimeter = useMemo(() => {
-    return (rectW - 2 * cornerRadius) * 2 + 
-           (rectH - 2 * cornerRadius) * 2 + 
-           (2 * Math.PI * cornerRadius);
-  }, [rectW, rectH, cornerRadius]);
+  const { glowStrength } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const thickness = designThickness * scale;
+  const glow = glowStrength * scale;
+
+  // --- 1. GEOMETRY ---
+  // The shape sits inside the frame minus the insets, leaving room for the glow
+  const pathData = useMemo(() => getBorderPath(
+    shape,
+    {
+      x: insetX * scale,
+      y: insetY * scale,
+      width: width - 2 * insetX * scale,
+      height: height - 2 * insetY * scale,
+    },
+    { cornerRadius: cornerRadius * scale, path },
+  ), [shape, insetX, insetY, cornerRadius, path, width, height, scale]);
+
+  // Media sits in the shape's bounding box, clipped by the same outline
+  const media = useMemo(() => {
+    if (src === '') return null;
+    const bounds = getBoundingBox(pathData);
+    return {
+      box: { x: bounds.x1, y: bounds.y1, width: bounds.width, height: bounds.height },
+      clipPath: `path("${translatePath(pathData, -bounds.x1, -bounds.y1)}")`,
+    };
+  }, [src, pathData]);
 
   // --- 2. ANIMATION LOGIC ---
-  
-  // Continuous movement 0 -> -Perimeter (Seamless Loop)
-  const baseOffset = interpolate(frame, [0, durationInFrames], [0, -perimeter]);
-
-  // We want two lines chasing each other.
-  // Visual Length: Each line covers about 40% of the border, with 10% gaps.
-  const beamLength = perimeter * 0.40;
-  const gapLength = perimeter * 0.10; // Gap between tail of one and head of next
-  
-  // The DashArray creates the "Solid Line" then "Empty Space" pattern
-  // Pattern: [Beam, Gap, Beam, Gap]... actually we just need [Beam, TotalPerimeter - Beam]
-  // and we render the path twice with different start offsets.
-  const dashArray = `${beamLength} ${perimeter - beamLength}`;
-
-  // --- 3. HELPER: RENDER BEAM ---
-  const renderBeam = (color: string, offsetModifier: number) => {
-    // We calculate the specific offset for this beam color
-    // We add the offsetModifier (0 for blue, perimeter/2 for pink) to place them opposite
-    const currentOffset = baseOffset - offsetModifier;
-
-    return (
-      <g>
-        {/* WIDE ATMOSPHERE GLOW (Soft blur) */}
-        <path
-          d={pathData}
-          stroke={color}
-          strokeWidth={thickness * 3}
-          fill="none"
-          strokeLinecap="round"
-          strokeDasharray={dashArray}
-          strokeDashoffset={currentOffset}
-          style={{ filter: 'blur(30px)', opacity: 0.6 * glowIntensity }}
-        />
-        
-        {/* TIGHT GLOW (Bright) */}
-        <path
-          d={pathData}
-          stroke={color}
-          strokeWidth={thickness * 1.5}
-          fill="none"
-          strokeLinecap="round"
-          strokeDasharray={dashArray}
-          strokeDashoffset={currentOffset}
-          style={{ filter: 'blur(10px)', opacity: 0.8 * glowIntensity }}
-        />
-
-        {/* CORE TUBE (Solid Color) */}
-        <path
-          d={pathData}
-          stroke={color}
-          strokeWidth={thickness}
-          fill="none"
-          strokeLinecap="round"
-          strokeDasharray={dashArray}
-          strokeDashoffset={currentOffset}
-          style={{ opacity: 1 }}
-        />
-
-        {/* WHITE HOT CENTER (The Bulb effect) */}
-        <path
-          d={pathData}
-          stroke="#ffffff"
-          strokeWidth={thickness * 0.3}
-          fill="none"
-          strokeLinecap="round"
-          strokeDasharray={dashArray}
-          strokeDashoffset={currentOffset}
-          style={{ opacity: 0.9 }}
-        />
-      </g>
-    );
-  };
+  // One lap per clip (seamless loop)
+  const progress = frame / durationInFrames;
 
   return (
-    <AbsoluteFill style={{ backgroundColor: '#000000' }}>
-      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
-        {/* Beam 1: Cyan (Starts at 0) */}
-        {renderBeam(color1, 0)}
-
-        {/* Beam 2: Pink (Starts halfway around the perimeter) */}
-        {renderBeam(color2, perimeter / 2)}
+    <AbsoluteFill style={{ backgroundColor: background.color }}>
+      {media && <FramedMedia src={src} fit={fit} box={media.box} clipPath={media.clipPath} />}
+
+      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} style={{ position: 'absolute' }}>
+        <ChasingBeams
+          pathData={pathData}
+          beams={beams}
+          progress={progress}
+          thickness={thickness}
+          glow={glow}
+          glowIntensity={glowIntensity}
+        />
       </svg>
       
-      {/* Optional: Vignette to darken corners like the reference photo */}
-      <AbsoluteFill style={{
-          background: 'radial-gradient(circle, transparent 60%, black 100%)',
-          pointerEvents: 'none'
-      }} />
+      {/* Optional: Vignette to darken corners like the reference photo (solid backgrounds only) */}
+      {background.isSolid && (
+        <AbsoluteFill style={{
+            background: 'radial-gradient(circle, transparent 60%, black 100%)',
+            pointerEvents: 'none'
+        }} />
+      )}
     </AbsoluteFill>
   );
 };
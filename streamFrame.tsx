@@ -0,0 +1,248 @@
+import React, { useMemo } from 'react';
+import {
+  AbsoluteFill,
+  useCurrentFrame,
+  useVideoConfig,
+} from 'remotion';
+import { z } from 'zod';
+import { getBoundingBox } from '@remotion/paths';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { fontFamilySchema, useFont } from './fonts';
+import {
+  borderShapeSchema,
+  ChasingBeams,
+  getBorderPath,
+  isDrawablePath,
+  neonBeamsSchema,
+} from './neonBorder';
+import type { Box } from './neonBorder';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+// A camera frame for OBS. With a transparent background the cutout is left
+// empty, so the webcam source placed under this overlay shows through. Solid
+// and chroma render without alpha (h264), so they fill the cutout too: key the
+// chroma color out in OBS to open the window.
+// All sizes are 4K design pixels.
+export const streamFrameSchema = z.object({
+  // Cutout: a corner preset, or 'custom' to place it at cutoutX / cutoutY
+  placement: z.enum(['topLeft', 'topRight', 'bottomLeft', 'bottomRight', 'center', 'custom']),
+  cutoutWidth: z.number().positive(),
+  cutoutHeight: z.number().positive(),
+  margin: z.number().min(0),  // Presets: distance from the frame edges
+  cutoutX: z.number(),        // 'custom' only: left edge
+  cutoutY: z.number(),        // 'custom' only: top edge
+  // Outline of the cutout (see neonBorder.tsx)
+  shape: borderShapeSchema,
+  cornerRadius: z.number().min(0), // 'rect' only
+  path: z.string(),                // 'path' only: SVG path data, fitted into the cutout
+  // Neon border
+  beams: neonBeamsSchema,
+  thickness: z.number().positive(),
+  glowIntensity: z.number().min(0),
+  // Labels; an empty string hides each one. Not `name`: scripts/renderBatch.ts
+  // takes that field for the output file name.
+  displayName: z.string(),  // Name plate across the bottom edge of the cutout
+  socialHandle: z.string(), // Bar below the cutout (above it when there is no room)
+  fontFamily: fontFamilySchema.optional(), // Google Font or font file (see fonts.ts)
+}).refine((props) => props.shape !== 'path' || isDrawablePath(props.path), {
+  message: 'shape "path" needs valid SVG path data in `path`',
+  path: ['path'],
+});
+
+export const compositionConfig = {
+  id: 'StreamFrame',
+  durationInSeconds: 10,
+  loop: true,
+  fps: 30,
+  width: 3840, // 4K Resolution
+  height: 2160,
+  schema: streamFrameSchema,
+  defaultProps: {
+    background: { mode: 'transparent' }, // Renders with alpha, ready for OBS
+    placement: 'bottomRight',
+    cutoutWidth: 1280,   // 16:9 camera
+    cutoutHeight: 720,
+    margin: 160,
+    cutoutX: 0,
+    cutoutY: 0,
+    shape: 'rect',
+    cornerRadius: 40,
+    path: '',
+    beams: {
+      count: 2,
+      length: 0.3,
+      gap: 0.2,
+      direction: 'forward',
+      colors: [],        // Theme primary and secondary
+    },
+    thickness: 10,
+    glowIntensity: 1,
+    displayName: 'STREAMER',
+    socialHandle: '@yourhandle',
+  },
+};
+
+type Props = z.infer<typeof streamFrameSchema>;
+
+// =============================================================================
+// HELPER: CUTOUT PLACEMENT
+// =============================================================================
+// Everything in px (design pixels already scaled).
+const getCutoutBox = (
+  placement: Props['placement'],
+  size: { width: number; height: number },
+  margin: number,
+  custom: { x: number; y: number },
+  frame: { width: number; height: number },
+): Box => {
+  const left = margin;
+  const right = frame.width - margin - size.width;
+  const top = margin;
+  const bottom = frame.height - margin - size.height;
+
+  switch (placement) {
+    case 'topLeft': return { x: left, y: top, ...size };
+    case 'topRight': return { x: right, y: top, ...size };
+    case 'bottomLeft': return { x: left, y: bottom, ...size };
+    case 'bottomRight': return { x: right, y: bottom, ...size };
+    case 'center':
+      return { x: (frame.width - size.width) / 2, y: (frame.height - size.height) / 2, ...size };
+    default: return { ...custom, ...size };
+  }
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+const StreamFrame: React.FC<Props> = (props) => {
+  const frame = useCurrentFrame();
+  const { width, height, durationInFrames } = useVideoConfig();
+  const { palette, glowStrength } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const { fontFamily } = useFont(props.fontFamily, [500, 700]);
+  const thickness = props.thickness * scale;
+  const glow = glowStrength * scale;
+  const accentColor = props.beams.colors[0] ?? palette.primary;
+
+  // --- 1. GEOMETRY ---
+  const box = getCutoutBox(
+    props.placement,
+    { width: props.cutoutWidth * scale, height: props.cutoutHeight * scale },
+    props.margin * scale,
+    { x: props.cutoutX * scale, y: props.cutoutY * scale },
+    { width, height },
+  );
+
+  const pathData = useMemo(
+    () => getBorderPath(props.shape, box, { cornerRadius: props.cornerRadius * scale, path: props.path }),
+    [props.shape, box.x, box.y, box.width, box.height, props.cornerRadius, props.path, scale],
+  );
+
+  // A circle or custom path can be smaller than the box; labels hug the outline itself
+  const outline = useMemo(() => getBoundingBox(pathData), [pathData]);
+  const outlineCenterX = (outline.x1 + outline.x2) / 2;
+
+  // --- 2. LABEL LAYOUT ---
+  const plateHeight = 110 * scale;
+  const barHeight = 90 * scale;
+  const barGap = 40 * scale;
+  const hasPlate = props.displayName !== '';
+  // The plate straddles the bottom edge, so the bar clears its lower half
+  const barTopBelow = outline.y2 + (hasPlate ? plateHeight / 2 : 0) + barGap;
+  const barTop = barTopBelow + barHeight <= height
+    ? barTopBelow
+    : outline.y1 - barGap - barHeight;
+
+  // One lap per clip (seamless loop)
+  const progress = frame / durationInFrames;
+
+  return (
+    <AbsoluteFill style={{ fontFamily }}>
+      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} style={{ position: 'absolute' }}>
+        {/* BACKGROUND (a hole here would come out black without alpha) */}
+        {background.mode !== 'transparent' && (
+          <rect width={width} height={height} fill={background.color} />
+        )}
+
+        {/* RESTING OUTLINE (keeps the edge visible between beams) */}
+        <path
+          d={pathData}
+          fill="none"
+          stroke={mixColor(accentColor, 0.35)}
+          strokeWidth={thickness * 0.5}
+        />
+
+        {/* NEON BORDER */}
+        <ChasingBeams
+          pathData={pathData}
+          beams={props.beams}
+          progress={progress}
+          thickness={thickness}
+          glow={glow}
+          glowIntensity={props.glowIntensity}
+        />
+      </svg>
+
+      {/* NAME PLATE */}
+      {hasPlate && (
+        <div
+          style={{
+            position: 'absolute',
+            left: outlineCenterX,
+            top: outline.y2,
+            transform: 'translate(-50%, -50%)',
+            height: plateHeight,
+            padding: `0 ${60 * scale}px`,
+            display: 'flex',
+            alignItems: 'center',
+            backgroundColor: palette.background,
+            border: `${4 * scale}px solid ${accentColor}`,
+            borderRadius: 16 * scale,
+            boxShadow: `0 0 ${30 * glow}px ${mixColor(accentColor, 0.6)}`,
+            color: palette.text,
+            fontSize: 56 * scale,
+            fontWeight: 700,
+            letterSpacing: 6 * scale,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {props.displayName}
+        </div>
+      )}
+
+      {/* SOCIAL HANDLE BAR */}
+      {props.socialHandle !== '' && (
+        <div
+          style={{
+            position: 'absolute',
+            left: outline.x1,
+            top: barTop,
+            width: outline.width,
+            height: barHeight,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            backgroundColor: mixColor(palette.background, 0.8),
+            borderTop: `${3 * scale}px solid ${accentColor}`,
+            borderRadius: 8 * scale,
+            color: palette.text,
+            fontSize: 44 * scale,
+            fontWeight: 500,
+            letterSpacing: 3 * scale,
+            textShadow: `0 0 ${12 * glow}px ${accentColor}`,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {props.socialHandle}
+        </div>
+      )}
+    </AbsoluteFill>
+  );
+};
+
+export default StreamFrame;
@@ -6,24 +6,44 @@ import {
   spring,
   interpolate,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { seedSchema } from './seededNoise';
+import { ParticleBursts, particleEmitterSchema } from './particleField';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const successCheckmarkSchema = z.object({
+  primaryColor: zColor().optional(), // Defaults to the theme's primary color
+  strokeWidth: z.number().positive(),
+  iconSize: z.number().positive(),
+  // Bursts around the tick (see particleField.tsx); from: 'cue' counts from the
+  // moment the tick pops in, e.g. { atSeconds: 0, count: 80, from: 'cue' }
+  emitters: z.array(particleEmitterSchema),
+  seed: seedSchema,
+});
+
 export const compositionConfig = {
   id: 'SuccessCheckmark',
   durationInFrames: 150, // 5 seconds at 30fps
   fps: 30,
   width: 3840, // 4K Resolution
   height: 2160,
+  schema: successCheckmarkSchema,
   defaultProps: {
-    color: '#39FF14', // Bright Neon Green
     strokeWidth: 30,
     iconSize: 800, // Large size for 4K
+    emitters: [],
+    seed: 0,
+    theme: { preset: 'neon', palette: { primary: '#39FF14' } }, // Bright neon green
   },
 };
 
-type Props = typeof compositionConfig.defaultProps;
+type Props = z.infer<typeof successCheckmarkSchema>;
 
 // =============================================================================
 // ANIMATION CONFIGURATION
@@ -36,12 +56,28 @@ const springConfig = {
   dampingDrawing: 20,
 };
 
+// The tick starts popping in this many frames after the circle starts drawing
+const TICK_POP_FRAME = 20;
+// ...and has landed (circle drawn, pop settled) by this frame
+const TICK_LANDED_FRAME = 50;
+
 // =============================================================================
-// MAIN COMPONENT
+// SUB-COMPONENT: CHECKMARK ICON
 // =============================================================================
-const SuccessCheckmark: React.FC<Props> = ({ color, strokeWidth, iconSize }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
+// The circle draws itself, then the tick pops in. `frame` counts from the
+// moment the icon should start drawing, so other components (e.g. the stage
+// list in progressStages.tsx) can play it when something completes.
+// Geometry is in `iconSize` design pixels; the viewBox scales it by `scale`.
+export const CheckmarkIcon: React.FC<{
+  frame: number;
+  fps: number;
+  iconSize: number;
+  strokeWidth: number;
+  color: string;
+  scale: number;
+  pulse?: boolean; // Keep breathing once the tick has landed
+}> = ({ frame, fps, iconSize, strokeWidth, color, scale, pulse = false }) => {
+  const { glowStrength } = useTheme();
 
   // Calculate geometry based on the desired icon size
   const center = iconSize / 2;
@@ -69,14 +105,13 @@ const SuccessCheckmark: React.FC<Props> = ({ color, strokeWidth, iconSize }) =>
   const checkmarkScaleSpring = spring({
     frame,
     fps,
-    // Delay the start by 20 frames
-    delay: 20,
+    delay: TICK_POP_FRAME,
     config: springConfig, // Snappy elastic pop
   });
 
   // --- PHASE C: GENTLE PULSE (Frames 50+) ---
   // Only start pulsing after the checkmark has landed
-  const pulseStartFrame = 50;
+  const pulseStartFrame = TICK_LANDED_FRAME;
   const pulseFrame = Math.max(0, frame - pulseStartFrame);
   // Use a sine wave for a continuous, gentle breathe effect
   const pulseSine = Math.sin((pulseFrame / fps) * Math.PI * 2); // 1 pulse per second
@@ -85,7 +120,7 @@ const SuccessCheckmark: React.FC<Props> = ({ color, strokeWidth, iconSize }) =>
 
   // Combine the initial pop scale with the pulse scale.
   // Once the pop is done (spring reaches 1), the pulse takes over.
-  const finalScale = checkmarkScaleSpring * (frame > pulseStartFrame ? pulseScale : 1);
+  const finalScale = checkmarkScaleSpring * (pulse && frame > pulseStartFrame ? pulseScale : 1);
 
   // --- COMMON STYLES ---
   const commonPathProps = {
@@ -95,55 +130,82 @@ const SuccessCheckmark: React.FC<Props> = ({ color, strokeWidth, iconSize }) =>
     strokeLinecap: 'round' as const,
     strokeLinejoin: 'round' as const,
     // Neon Glow Effect
-    filter: `drop-shadow(0 0 20px ${color})`,
+    filter: `drop-shadow(0 0 ${20 * glowStrength}px ${color})`,
   };
 
+  return (
+    <svg
+      width={iconSize * scale}
+      height={iconSize * scale}
+      viewBox={`0 0 ${iconSize} ${iconSize}`}
+      // Allow the glow to spill outside the bounding box
+      style={{ overflow: 'visible' }} 
+    >
+      {/* THE CIRCLE OUTLINE */}
+      <circle
+        cx={center}
+        cy={center}
+        r={radius}
+        {...commonPathProps}
+        // Dash array must be >= perimeter for the drawing effect
+        strokeDasharray={circlePerimeter}
+        // Animate offset from full perimeter (hidden) to 0 (drawn)
+        strokeDashoffset={circleDashOffset}
+        // Rotate -90deg to start drawing from the top
+        transform={`rotate(-90 ${center} ${center})`}
+      />
+
+      {/* THE CHECKMARK PATH */}
+      {/* Define checkmark points relative to the icon size */}
+      <path
+        d={`M ${iconSize * 0.28} ${iconSize * 0.53} 
+           L ${iconSize * 0.45} ${iconSize * 0.7} 
+           L ${iconSize * 0.72} ${iconSize * 0.35}`}
+        {...commonPathProps}
+        // Scale animation from center
+        transform={`scale(${finalScale})`}
+        style={{
+          // Set transform origin for scaling
+          transformOrigin: `${center}px ${center}px`,
+        }}
+      />
+    </svg>
+  );
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+const SuccessCheckmark: React.FC<Props> = ({ primaryColor, strokeWidth, iconSize, emitters, seed }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const { palette } = useTheme();
+  const background = useBackground();
+  const scale = useScale();
+  const color = primaryColor ?? palette.primary;
+
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#000000', // Pure black background
+        backgroundColor: background.color,
         display: 'flex',
         justifyContent: 'center',
         alignItems: 'center',
       }}
     >
-      {/* SVG Container centered on screen */}
-      <svg
-        width={iconSize}
-        height={iconSize}
-        viewBox={`0 0 ${iconSize} ${iconSize}`}
-        // Allow the glow to spill outside the bounding box
-        style={{ overflow: 'visible' }} 
-      >
-        {/* THE CIRCLE OUTLINE */}
-        <circle
-          cx={center}
-          cy={center}
-          r={radius}
-          {...commonPathProps}
-          // Dash array must be >= perimeter for the drawing effect
-          strokeDasharray={circlePerimeter}
-          // Animate offset from full perimeter (hidden) to 0 (drawn)
-          strokeDashoffset={circleDashOffset}
-          // Rotate -90deg to start drawing from the top
-          transform={`rotate(-90 ${center} ${center})`}
-        />
-
-        {/* THE CHECKMARK PATH */}
-        {/* Define checkmark points relative to the icon size */}
-        <path
-          d={`M ${iconSize * 0.28} ${iconSize * 0.53} 
-             L ${iconSize * 0.45} ${iconSize * 0.7} 
-             L ${iconSize * 0.72} ${iconSize * 0.35}`}
-          {...commonPathProps}
-          // Scale animation from center
-          transform={`scale(${finalScale})`}
-          style={{
-            // Set transform origin for scaling
-            transformOrigin: `${center}px ${center}px`,
-          }}
-        />
-      </svg>
+      {/* Centered on screen, drawn in 4K design pixels */}
+      <CheckmarkIcon
+        frame={frame}
+        fps={fps}
+        iconSize={iconSize}
+        strokeWidth={strokeWidth}
+        color={color}
+        scale={scale}
+        pulse
+      />
+
+      {/* Bursts celebrate the finished tick, not the start of its pop */}
+      <ParticleBursts emitters={emitters} cueSeconds={TICK_LANDED_FRAME / fps} seed={seed} />
     </AbsoluteFill>
   );
 };
@@ -0,0 +1,179 @@
+import React, { createContext, useContext } from 'react';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+
+// =============================================================================
+// TYPES & SCHEMAS
+// =============================================================================
+// Components take their colors and font from the active theme. A color prop that
+// is set on a composition overrides the theme for that component only. Color
+// props are named after the palette slot they fall back to (primaryColor,
+// secondaryColor, accentColor) and have no defaults of their own; colors of
+// parts mixed from the palette keep the part's name (trackColor, gridColor).
+export const paletteSchema = z.object({
+  primary: zColor(),    // Main neon color: lines, fills, active segments
+  secondary: zColor(),  // Second neon color: gradients, dual beams
+  accent: zColor(),     // Highlights, warnings, badges
+  background: zColor(),
+  text: zColor(),
+});
+
+export const themeSchema = z.object({
+  palette: paletteSchema,
+  glowStrength: z.number().min(0), // Multiplies every glow radius; 0 = flat
+  fontFamily: z.string().min(1), // CSS stack led by a Google Font, which is loaded (see fonts.ts)
+});
+
+export type Palette = z.infer<typeof paletteSchema>;
+export type Theme = z.infer<typeof themeSchema>;
+
+// =============================================================================
+// PRESETS
+// =============================================================================
+export const THEMES = {
+  neon: {
+    palette: {
+      primary: '#00FFFF',    // Cyan
+      secondary: '#FF00FF',  // Magenta
+      accent: '#FFD700',     // Gold
+      background: '#000000',
+      text: '#FFFFFF',
+    },
+    glowStrength: 1,
+    fontFamily: 'Inter, Roboto, Helvetica, Arial, sans-serif',
+  },
+  synthwave: {
+    palette: {
+      primary: '#FF2A6D',    // Hot pink
+      secondary: '#05D9E8',  // Electric blue
+      accent: '#F9C80E',     // Sunset yellow
+      background: '#0D0221', // Deep purple night
+      text: '#FFFFFF',
+    },
+    glowStrength: 1.25,
+    fontFamily: '"Russo One", "Arial Black", sans-serif',
+  },
+  matrix: {
+    palette: {
+      primary: '#00FF41',    // Terminal green
+      secondary: '#008F11',
+      accent: '#D1FFD7',
+      background: '#000500',
+      text: '#E0FFE0',
+    },
+    glowStrength: 1,
+    fontFamily: '"Roboto Mono", Consolas, "Courier New", monospace',
+  },
+  gold: {
+    palette: {
+      primary: '#FFD700',
+      secondary: '#FF8C00',
+      accent: '#FFF4C2',
+      background: '#0A0700',
+      text: '#FFF8E7',
+    },
+    glowStrength: 0.8,
+    fontFamily: 'Montserrat, "Helvetica Neue", Helvetica, Arial, sans-serif',
+  },
+  broadcast: {
+    palette: {
+      primary: '#D00000',    // Classic news red
+      secondary: '#FFFFFF',
+      accent: '#FFD700',     // Gold/Yellow
+      background: '#1A1A1A', // Dark grey
+      text: '#FFFFFF',
+    },
+    glowStrength: 0,
+    fontFamily: 'Oswald, "Arial Narrow", sans-serif',
+  },
+  romance: {
+    palette: {
+      primary: '#FF1493',    // Deep pink
+      secondary: '#FF2400',  // Soft red
+      accent: '#FFB6C1',     // Pale pink
+      background: '#1A0008',
+      text: '#FFFFFF',
+    },
+    glowStrength: 1,
+    fontFamily: '"Dancing Script", "Brush Script MT", Georgia, serif',
+  },
+  clean: {
+    palette: {
+      primary: '#4CAF50',
+      secondary: '#2196F3',
+      accent: '#FFC107',
+      background: '#000000',
+      text: '#FFFFFF',
+    },
+    glowStrength: 0,       // No glow: flat, corporate look
+    fontFamily: 'Roboto, -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif',
+  },
+} satisfies Record<string, Theme>;
+
+export type ThemeName = keyof typeof THEMES;
+
+export const DEFAULT_THEME: ThemeName = 'neon';
+
+export const themeNameSchema = z.enum(Object.keys(THEMES) as [ThemeName, ...ThemeName[]]);
+
+// The `theme` prop every registered composition gets (see compositionRegistry.ts):
+// a preset name, or a preset with some of its values replaced, e.g.
+// { preset: 'neon', palette: { accent: '#FF0000' } }. Compositions use the
+// second form to keep their own look while still following the theme system.
+export const themeSettingSchema = z.union([
+  themeNameSchema,
+  z.object({
+    preset: themeNameSchema,
+    palette: paletteSchema.partial().optional(),
+    glowStrength: z.number().min(0).optional(),
+    fontFamily: z.string().min(1).optional(),
+  }),
+]);
+
+export type ThemeSetting = z.infer<typeof themeSettingSchema>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+// Blends `color` into `base`: mixColor(primary, 0.2, background) gives a dim
+// version of the primary color for tracks, grids and unlit segments.
+export const mixColor = (color: string, amount: number, base = 'transparent'): string => {
+  return `color-mix(in srgb, ${color} ${Math.round(amount * 100)}%, ${base})`;
+};
+
+export const resolveTheme = (setting: ThemeSetting): Theme => {
+  if (typeof setting === 'string') return THEMES[setting];
+  const { preset, palette, ...overrides } = setting;
+  const base: Theme = THEMES[preset];
+  return { ...base, ...overrides, palette: { ...base.palette, ...palette } };
+};
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+const ThemeContext = createContext<Theme>(THEMES[DEFAULT_THEME]);
+
+export const ThemeProvider: React.FC<{ theme: Theme; children: React.ReactNode }> = ({
+  theme,
+  children,
+}) => {
+  return <ThemeContext.Provider value={theme}>{children}</ThemeContext.Provider>;
+};
+
+export const useTheme = (): Theme => useContext(ThemeContext);
+
+// Wraps a composition component so it reads the theme set by its `theme`
+// prop. The prop itself is not passed on.
+export const withTheme = <P extends object>(
+  Component: React.ComponentType<P>,
+): React.FC<P & { theme?: ThemeSetting }> => {
+  const Themed: React.FC<P & { theme?: ThemeSetting }> = ({ theme = DEFAULT_THEME, ...props }) => {
+    return (
+      <ThemeProvider theme={resolveTheme(theme)}>
+        <Component {...(props as P)} />
+      </ThemeProvider>
+    );
+  };
+  Themed.displayName = `Themed(${Component.displayName ?? Component.name})`;
+  return Themed;
+};
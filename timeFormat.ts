@@ -0,0 +1,22 @@
+// =============================================================================
+// CLOCK FORMATTING
+// =============================================================================
+export type ClockFormat = 'mm:ss' | 'hh:mm:ss';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Formats a whole number of seconds as a clock readout. Fractions are floored,
+// so callers counting down should Math.ceil first to avoid showing 00:00 early.
+// 'mm:ss' keeps counting minutes past 59 (e.g. 75:00) instead of dropping hours.
+export const formatClock = (totalSeconds: number, format: ClockFormat = 'mm:ss'): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const s = seconds % 60;
+
+  if (format === 'hh:mm:ss') {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    return `${pad(h)}:${pad(m)}:${pad(s)}`;
+  }
+
+  return `${pad(Math.floor(seconds / 60))}:${pad(s)}`;
+};
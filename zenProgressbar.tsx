@@ -6,54 +6,111 @@ import {
   interpolate,
   Easing,
 } from 'remotion';
+import { z } from 'zod';
+import { zColor } from '@remotion/zod-types';
+import { mixColor, useTheme } from './theme';
+import { useBackground } from './background';
+import { useScale } from './layout';
+import { fontFamilySchema, useFont } from './fonts';
+import { progressTrackSchema, sampleProgressTrack, useProgressTrack } from './progressTrack';
+import {
+  getStageLabelEntry,
+  getStageState,
+  progressStagesSchema,
+  StageChecks,
+  StageDividers,
+} from './progressStages';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
+export const zenProgressSchema = z.object({
+  containerWidth: z.number().positive(),
+  barHeight: z.number().positive(),
+  // Colors default to the active theme; set one to override it here only
+  primaryColor: zColor().optional(),   // Start of the fill gradient
+  secondaryColor: zColor().optional(), // End of the fill gradient
+  text: z.string(), // Replaced by the current stage's label in stepped mode
+  fontFamily: fontFamilySchema.optional(), // Google Font or font file (see fonts.ts)
+  // Scripted progress (see progressTrack.ts); without it the bar fills evenly
+  progressTrack: progressTrackSchema.optional(),
+  progressTrackSrc: z.string(), // Optional JSON file in public/ that replaces progressTrack
+  // Stepped mode: named stages with dividers, a live stage label and a
+  // checkmark per finished stage (see progressStages.tsx). Empty = one plain bar.
+  stages: progressStagesSchema,
+});
+
 export const compositionConfig = {
   id: 'ZenProgressBar',
   durationInSeconds: 12, // Slow, calming duration between 10-15s
   fps: 30,
   width: 3840, // 4K Canvas
   height: 2160,
+  schema: zenProgressSchema,
   defaultProps: {
     containerWidth: 2000, // "Big size" width constraint
     barHeight: 90,        // Sleek, not too thick
-    colorStart: '#89CFF0', // Soft Sky Blue
-    colorEnd: '#9FE2BF',   // Seafoam Green
     text: 'Please wait...',
+    progressTrackSrc: '',
+    stages: [],
+    theme: { preset: 'neon', palette: { primary: '#89CFF0', secondary: '#9FE2BF' } }, // Soft sky blue to seafoam green
   },
 };
 
-type ZenProgressProps = typeof compositionConfig.defaultProps;
+type ZenProgressProps = z.infer<typeof zenProgressSchema>;
 
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
 const ZenProgressBar: React.FC<ZenProgressProps> = ({
-  containerWidth,
-  barHeight,
-  colorStart,
-  colorEnd,
+  containerWidth: designContainerWidth,
+  barHeight: designBarHeight,
+  primaryColor: colorStartProp,
+  secondaryColor: colorEndProp,
   text,
+  fontFamily: fontFamilyProp,
+  progressTrack,
+  progressTrackSrc,
+  stages,
 }) => {
   const frame = useCurrentFrame();
-  const { durationInFrames } = useVideoConfig();
+  const { fps, durationInFrames } = useVideoConfig();
+  const track = useProgressTrack(progressTrack, progressTrackSrc);
+  const { palette, glowStrength } = useTheme();
+  const { fontFamily } = useFont(fontFamilyProp, [300]);
+  const background = useBackground();
+  const scale = useScale();
+  const containerWidth = designContainerWidth * scale;
+  const barHeight = designBarHeight * scale;
+  const glow = glowStrength * scale;
+  const colorStart = colorStartProp ?? palette.primary;
+  const colorEnd = colorEndProp ?? palette.secondary;
 
   // --- 1. PROGRESS MOTION (The Calm Fill) ---
   // We use a very gentle bezier curve for deliberate, smooth motion.
   // Starts slow, picks up gently, slows down smoothly at the end.
   const progressEase = Easing.bezier(0.25, 0.1, 0.25, 1.0);
   
-  const progressPercent = interpolate(
-    frame,
-    [0, durationInFrames],
-    [0, 100],
-    {
-      easing: progressEase,
-      extrapolateRight: 'clamp',
-    }
-  );
+  // A progress track, when given, replaces this curve. The curve reaches 100%
+  // on the last frame, so the final stage completes too.
+  const progressAt = (f: number) => track
+    ? sampleProgressTrack(track, f / fps)
+    : interpolate(
+        f,
+        [0, durationInFrames - 1],
+        [0, 100],
+        {
+          easing: progressEase,
+          extrapolateRight: 'clamp',
+        }
+      );
+  const progressPercent = progressAt(frame);
+
+  // Stepped mode: which stage we're in and when each one finished
+  const stepped = stages.length > 0;
+  const stageState = getStageState(stages, progressAt, frame);
+  const labelEntry = getStageLabelEntry(stageState, frame, fps);
+  const checkSize = 70; // Design pixels
 
   // --- 2. TEXT BREATHING ANIMATION ---
   // A slow sine wave oscillation.
@@ -71,10 +128,10 @@ const ZenProgressBar: React.FC<ZenProgressProps> = ({
   const trackStyle: React.CSSProperties = {
     width: '100%',
     height: barHeight,
-    backgroundColor: '#1a1a1a', // Subtle dark grey track, slightly lighter than bg
+    backgroundColor: mixColor(palette.text, 0.1, palette.background), // Subtle track, slightly lighter than bg
     borderRadius: 999, // perfectly rounded corners
     overflow: 'hidden', // Ensures the fill and its inner glow stay inside the track
-    boxShadow: 'inset 0 2px 5px rgba(0,0,0,0.5)', // subtle inner depth
+    boxShadow: `inset 0 ${2 * scale}px ${5 * scale}px rgba(0,0,0,0.5)`, // subtle inner depth
     position: 'relative',
   };
 
@@ -86,8 +143,8 @@ const ZenProgressBar: React.FC<ZenProgressProps> = ({
     // The "Frosted Glow": Multi-layered soft shadows.
     // We use the start color for the glow to keep it soothing.
     boxShadow: `
-      0 0 20px 5px ${colorStart}40, /* Soft, wide dispersion (low opacity) */
-      0 0 10px 2px ${colorStart}60  /* Tighter, slightly brighter core */
+      0 0 ${20 * glow}px ${5 * glow}px ${mixColor(colorStart, 0.25)}, /* Soft, wide dispersion (low opacity) */
+      0 0 ${10 * glow}px ${2 * glow}px ${mixColor(colorStart, 0.38)}  /* Tighter, slightly brighter core */
     `,
     // Ensure smooth width transitions
     willChange: 'width',
@@ -95,37 +152,60 @@ const ZenProgressBar: React.FC<ZenProgressProps> = ({
   };
 
   const textStyle: React.CSSProperties = {
-    fontFamily: '"Helvetica Neue", Helvetica, Arial, sans-serif', // Clean modern sans
-    color: '#ffffff',
-    fontSize: 40, // Big, readable size
+    fontFamily,
+    color: palette.text,
+    fontSize: 40 * scale, // Big, readable size
     fontWeight: 300, // Light weight for elegance
-    letterSpacing: '1px',
-    marginTop: 40, // Spacing below bar
+    letterSpacing: 1 * scale,
+    marginTop: (stepped ? 40 + checkSize + 30 : 40) * scale, // Spacing below bar (and the checkmarks)
     textAlign: 'center',
-    opacity: textOpacity, // Breathing animation
+    opacity: textOpacity * (stepped ? labelEntry.opacity : 1), // Breathing animation
+    transform: stepped ? `translateY(${labelEntry.translateY * scale}px)` : undefined,
   };
 
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: '#000000', // Solid Deep Black Background
+        backgroundColor: background.color,
         display: 'flex',
         justifyContent: 'center',
         alignItems: 'center',
       }}
     >
       {/* Main Container limiting width to 1200px */}
-      <div style={{ width: containerWidth, display: 'flex', flexDirection: 'column' }}>
+      <div style={{ position: 'relative', width: containerWidth, display: 'flex', flexDirection: 'column' }}>
         
         {/* The Progress Bar Track */}
         <div style={trackStyle}>
           {/* The Animated Fill */}
           <div style={fillStyle} />
+          {stepped && (
+            <StageDividers
+              stages={stages}
+              color={background.color}
+              width={6 * scale}
+              height={barHeight}
+            />
+          )}
         </div>
 
-        {/* The Breathing Text */}
+        {/* Stepped mode: a checkmark under each finished stage */}
+        {stepped && (
+          <StageChecks
+            stages={stages}
+            state={stageState}
+            frame={frame}
+            fps={fps}
+            color={colorEnd}
+            iconSize={checkSize}
+            scale={scale}
+            top={barHeight + 40 * scale}
+          />
+        )}
+
+        {/* The Breathing Text (the current stage in stepped mode) */}
         <div style={textStyle}>
-          {text}
+          {stepped ? stageState.label : text}
         </div>
 
       </div>